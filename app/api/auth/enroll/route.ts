@@ -0,0 +1,26 @@
+import { authenticateRequest, jsonResponse, logRequest, preflightResponse } from '@/lib/api-route';
+import { deviceTokensEnabled, issueDeviceCredential } from '@/lib/device-tokens';
+
+// Handle preflight OPTIONS request
+export async function OPTIONS() {
+  return preflightResponse();
+}
+
+/**
+ * Enrolls a device: the enrollment code is a named API key sent as `x-api-key`
+ */
+export async function POST(req: Request) {
+  if (!deviceTokensEnabled()) {
+    return jsonResponse({ error: 'Device enrollment is not enabled' }, 503);
+  }
+
+  const context = await authenticateRequest(req);
+  // Devices enroll with a key, not with another device's token
+  if (!context || context.deviceId) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  const device = issueDeviceCredential(context.keyName);
+  logRequest(context, `POST /api/auth/enroll device=${device.deviceId}`);
+  return jsonResponse(device);
+}
@@ -0,0 +1,33 @@
+import { isApiKeyNameActive } from '@/lib/api-keys';
+import { jsonResponse, logRequest, preflightResponse } from '@/lib/api-route';
+import { deviceTokensEnabled, issueAccessToken, verifyToken } from '@/lib/device-tokens';
+
+// Handle preflight OPTIONS request
+export async function OPTIONS() {
+  return preflightResponse();
+}
+
+/**
+ * Exchanges a device credential for a short-lived access token
+ */
+export async function POST(req: Request) {
+  if (!deviceTokensEnabled()) {
+    return jsonResponse({ error: 'Device enrollment is not enabled' }, 503);
+  }
+
+  let deviceCredential: unknown;
+  try {
+    ({ deviceCredential } = await req.json());
+  } catch {
+    return jsonResponse({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const device = typeof deviceCredential === 'string' ? await verifyToken(deviceCredential, 'device') : null;
+  // A revoked enrollment key takes its devices with it
+  if (!device || !(await isApiKeyNameActive(device.key))) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  logRequest({ keyName: device.key, deviceId: device.sub }, 'POST /api/auth/token');
+  return jsonResponse(issueAccessToken(device));
+}
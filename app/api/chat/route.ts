@@ -1,88 +1,168 @@
-import { streamText, UIMessage, convertToModelMessages } from 'ai';
-import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import {
+  streamText,
+  convertToModelMessages,
+  createUIMessageStream,
+  createUIMessageStreamResponse,
+  stepCountIs,
+} from 'ai';
+import { authenticateRequest, jsonResponse, logRequest, preflightResponse, withCorsHeaders } from '@/lib/api-route';
+import { parseChatRequest } from '@/lib/chat-request';
+import type { ChatUIMessage, HistorySummary } from '@/lib/chat-message';
+import { getConversationStore } from '@/lib/conversation-store';
+import { isValidConversationId } from '@/lib/conversations';
+import { describeDate, localToday } from '@/lib/date-math';
+import { compactHistory } from '@/lib/history-compaction';
+import { foldSummarizedTurns } from '@/lib/history-summary';
+import { sanitizeMessageImages } from '@/lib/image-sanitizer';
+import { checkRateLimit, rateLimitResponse, recordTokenUsage } from '@/lib/rate-limit';
+import { HANDWRITING_PROMPT, resolvePersona } from '@/lib/personas';
+import { findAvailableModel, getDefaultModelId, getLanguageModel, getProviderConfigError } from '@/lib/providers';
+import { getSearchAdapter } from '@/lib/search';
+import { needsSummary, summarizeTurns } from '@/lib/summarization';
+import { resolveToolApprovals } from '@/lib/tool-approval';
+import { createTools, getMaxToolSteps } from '@/lib/tools';
+import { recordUsage, toResponseUsage } from '@/lib/usage-ledger';
 // Allow streaming responses up to 30 seconds
 export const maxDuration = 30;
 
-// CORS headers for production
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-api-key',
-  'Access-Control-Max-Age': '86400',
-};
-
-/**
- * Validates the API key from the request headers
- * @param request - The incoming HTTP request
- * @returns boolean indicating if the API key is valid
- */
-function validateApiKey(request: Request): boolean {
-  const apiKey = request.headers.get('x-api-key');
-  const expectedKey = process.env.API_SECRET_KEY;
-  
-  if (!expectedKey || !apiKey) {
-    return false;
-  }
-  
-  // Simple string comparison (sufficient for beta)
-  return apiKey === expectedKey;
-}
-
-const provider = createOpenAICompatible({
-  name: 'DevBoost',
-  apiKey: process.env.PROVIDER_API_KEY,
-  baseURL: 'https://gateway.ai.devboost.com/v1',
-  includeUsage: true,
-});
+const WEB_SEARCH_PROMPT =
+  'You can search the web with the webSearch tool. Use it for anything current or that you are unsure of.';
 
 // Handle preflight OPTIONS request
 export async function OPTIONS() {
-  return new Response(null, {
-    status: 204,
-    headers: corsHeaders,
-  });
+  return preflightResponse();
 }
 
 export async function POST(req: Request) {
+  const startedAt = Date.now();
+
   // Validate API key first
-  if (!validateApiKey(req)) {
-    return new Response(
-      JSON.stringify({ error: 'Unauthorized' }),
-      { 
-        status: 401,
-        headers: { 
-          'Content-Type': 'application/json',
-          ...corsHeaders
-        }
+  const context = await authenticateRequest(req);
+  if (!context) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+  if (getProviderConfigError()) {
+    return jsonResponse({ error: 'The model providers are misconfigured' }, 503);
+  }
+
+  const parsed = await parseChatRequest(req);
+  if (!parsed.success) {
+    logRequest(context, `POST /api/chat rejected: ${parsed.error}`);
+    return jsonResponse({ error: parsed.error, issues: parsed.issues }, parsed.status);
+  }
+  const { id: conversationId, webSearch, timeZone } = parsed.data;
+  const persona = resolvePersona(parsed.data.persona);
+  // Without a requested model, use the persona's when it is available
+  const personaModelId =
+    persona.defaultModelId && findAvailableModel(persona.defaultModelId) ? persona.defaultModelId : undefined;
+  const modelId = parsed.data.model ?? personaModelId ?? getDefaultModelId();
+  // Persist what the client sent, not the compacted copy the provider sees
+  const requestMessages = parsed.data.messages as ChatUIMessage[];
+
+  const model = modelId ? findAvailableModel(modelId) : undefined;
+  if (!model) {
+    return jsonResponse({ error: modelId ? `Unknown model: ${modelId}` : 'No models are configured' }, 400);
+  }
+
+  const limit = await checkRateLimit(context.keyName);
+  if (!limit.allowed) {
+    logRequest(context, `POST /api/chat rejected: ${limit.reason}`);
+    return rateLimitResponse(limit);
+  }
+
+  // Turns an earlier summary covers are sent as that summary; when the rest
+  // nears the context window, the oldest of them are folded into a new one
+  let history = foldSummarizedTurns(requestMessages);
+  let summary: HistorySummary | undefined;
+  if (needsSummary(model, history)) {
+    const summaryStartedAt = Date.now();
+    try {
+      const summarized = await summarizeTurns(model, history);
+      if (summarized) {
+        summary = summarized.summary;
+        const throughIndex = history.findIndex((message) => message.id === summarized.summary.throughMessageId);
+        history = foldSummarizedTurns(history, { summary, throughIndex });
+        await recordTokenUsage(context.keyName, summarized.usage.totalTokens ?? 0);
+        await recordUsage(context, 'summary', toResponseUsage(model, summarized.usage, summaryStartedAt), conversationId);
       }
-    );
+    } catch (error) {
+      console.error('Failed to summarise the conversation, sending it in full:', error);
+    }
   }
 
-  const {
-    messages,
-    model,
-    webSearch,
-  }: { 
-    messages: UIMessage[]; 
-    model: string; 
-    webSearch: boolean;
-  } = await req.json();
-  const result = streamText({
-    model: provider("DevBoost/OpenAI/gpt-5.1"),
-    messages: convertToModelMessages(messages),
-    system:
-      'You are a helpful assistant that can answer questions and help with tasks. I will send you handwritten prompts as images. Answer me. Do not mention my handwriting.',
-  });
-  // send sources and reasoning back to the client
-  const response = result.toUIMessageStreamResponse({
-    sendSources: true,
-    sendReasoning: true
+  // Older drawings become transcripts, then the remaining images are
+  // re-encoded so only verified, metadata-free pixels reach the provider
+  const compacted = compactHistory(history, model.keepRecentImages, { includesCurrentTurn: true });
+  const sanitized = await sanitizeMessageImages(compacted);
+  if (!sanitized.success) {
+    logRequest(context, 'POST /api/chat rejected: invalid image');
+    return jsonResponse({ error: 'Invalid image', issues: sanitized.issues }, 400);
+  }
+  const messages = sanitized.messages;
+
+  logRequest(
+    context,
+    `POST /api/chat model=${model.id} persona=${persona.id} messages=${messages.length}${webSearch ? ' webSearch' : ''}${summary ? ' summarized' : ''}`,
+  );
+
+  const searchAllowed = persona.tools.includes('webSearch');
+  const searchAdapter = webSearch && searchAllowed ? await getSearchAdapter() : null;
+  if (webSearch && !searchAllowed) {
+    console.warn(`webSearch requested but persona ${persona.id} does not allow it; answering without search`);
+  } else if (webSearch && !searchAdapter) {
+    console.warn('webSearch requested but no search adapter is available; answering without search');
+  }
+  // The user's date, so "next Friday" means the same to the model as to them
+  const today = describeDate(localToday(timeZone));
+  const systemPrompt = `${persona.systemPrompt} ${HANDWRITING_PROMPT} Today is ${today.weekday}, ${today.date}.`;
+
+  const stream = createUIMessageStream<ChatUIMessage>({
+    originalMessages: requestMessages,
+    execute: async ({ writer }) => {
+      const tools = createTools(persona.tools, { writer, searchAdapter, timeZone });
+      // Run or decline the tool calls the user has answered since the last response
+      const resolvedMessages = await resolveToolApprovals(messages, tools.executable, writer);
+      const result = streamText({
+        model: getLanguageModel(model),
+        messages: convertToModelMessages(resolvedMessages),
+        system: searchAdapter ? `${systemPrompt}\n\n${WEB_SEARCH_PROMPT}` : systemPrompt,
+        tools: tools.offered,
+        stopWhen: stepCountIs(getMaxToolSteps()),
+        onFinish: async ({ totalUsage }) => {
+          await recordTokenUsage(context.keyName, totalUsage.totalTokens ?? 0);
+          await recordUsage(context, 'chat', toResponseUsage(model, totalUsage, startedAt), conversationId);
+        },
+      });
+      // send sources, reasoning, any new summary and the response's usage back to the client
+      writer.merge(
+        result.toUIMessageStream({
+          sendSources: true,
+          sendReasoning: true,
+          messageMetadata: ({ part }) => {
+            if (part.type === 'start' && summary) {
+              return { summary };
+            }
+            return part.type === 'finish' ? { usage: toResponseUsage(model, part.totalUsage, startedAt) } : undefined;
+          },
+        }),
+      );
+    },
+    // Save the new prompt and the reply so other devices can resume the conversation
+    onFinish: async ({ responseMessage }) => {
+      if (!conversationId || !isValidConversationId(conversationId)) {
+        return;
+      }
+      try {
+        await getConversationStore().append(context.keyName, conversationId, [
+          requestMessages[requestMessages.length - 1],
+          responseMessage,
+        ]);
+      } catch (error) {
+        console.error(`Failed to save conversation ${conversationId}:`, error);
+      }
+    },
   });
-  
+
   // Add CORS headers to the streaming response
-  Object.entries(corsHeaders).forEach(([key, value]) => {
-    response.headers.set(key, value);
-  });
-  
-  return response;
-}
\ No newline at end of file
+  return withCorsHeaders(createUIMessageStreamResponse({ stream }));
+}
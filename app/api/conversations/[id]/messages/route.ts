@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { authenticateRequest, jsonResponse, logRequest, preflightResponse } from '@/lib/api-route';
+import type { ChatUIMessage } from '@/lib/chat-message';
+import { getChatRequestLimits, messageSchema, toIssues } from '@/lib/chat-request';
+import { getConversationStore } from '@/lib/conversation-store';
+import { isValidConversationId, type ConversationRouteContext } from '@/lib/conversations';
+
+const appendMessagesSchema = z.object({
+  messages: z.array(messageSchema).min(1),
+});
+
+// Handle preflight OPTIONS request
+export async function OPTIONS() {
+  return preflightResponse();
+}
+
+/**
+ * Appends `{ messages }`; a stored message id replaces that message and the
+ * ones after it. Creates the conversation if needed.
+ */
+export async function POST(req: Request, { params }: ConversationRouteContext) {
+  const context = await authenticateRequest(req);
+  if (!context) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  const { id } = await params;
+  if (!isValidConversationId(id)) {
+    return jsonResponse({ error: 'Conversation not found' }, 404);
+  }
+
+  const { maxBodyBytes } = getChatRequestLimits();
+  if (Number(req.headers.get('content-length')) > maxBodyBytes) {
+    return jsonResponse({ error: `Request body exceeds ${maxBodyBytes} bytes` }, 413);
+  }
+  let json: unknown;
+  try {
+    json = await req.json();
+  } catch {
+    return jsonResponse({ error: 'Invalid JSON body' }, 400);
+  }
+  const parsed = appendMessagesSchema.safeParse(json);
+  if (!parsed.success) {
+    return jsonResponse({ error: 'Invalid request body', issues: toIssues(parsed.error) }, 400);
+  }
+
+  logRequest(context, `POST /api/conversations/${id}/messages count=${parsed.data.messages.length}`);
+  const conversation = await getConversationStore().append(
+    context.keyName,
+    id,
+    parsed.data.messages as ChatUIMessage[],
+  );
+  return jsonResponse(conversation);
+}
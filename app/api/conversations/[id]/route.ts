@@ -0,0 +1,40 @@
+import { authenticateRequest, jsonResponse, logRequest, preflightResponse, withCorsHeaders } from '@/lib/api-route';
+import { getConversationStore } from '@/lib/conversation-store';
+import { isValidConversationId, type ConversationRouteContext } from '@/lib/conversations';
+
+// Handle preflight OPTIONS request
+export async function OPTIONS() {
+  return preflightResponse();
+}
+
+/**
+ * A conversation with all of its messages
+ */
+export async function GET(req: Request, { params }: ConversationRouteContext) {
+  const context = await authenticateRequest(req);
+  if (!context) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  const { id } = await params;
+  logRequest(context, `GET /api/conversations/${id}`);
+  const conversation = isValidConversationId(id) ? await getConversationStore().get(context.keyName, id) : null;
+  if (!conversation) {
+    return jsonResponse({ error: 'Conversation not found' }, 404);
+  }
+  return jsonResponse(conversation);
+}
+
+export async function DELETE(req: Request, { params }: ConversationRouteContext) {
+  const context = await authenticateRequest(req);
+  if (!context) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  const { id } = await params;
+  logRequest(context, `DELETE /api/conversations/${id}`);
+  if (!isValidConversationId(id) || !(await getConversationStore().delete(context.keyName, id))) {
+    return jsonResponse({ error: 'Conversation not found' }, 404);
+  }
+  return withCorsHeaders(new Response(null, { status: 204 }));
+}
@@ -0,0 +1,57 @@
+import { nanoid } from 'nanoid';
+import { z } from 'zod';
+import { authenticateRequest, jsonResponse, logRequest, preflightResponse } from '@/lib/api-route';
+import { toIssues } from '@/lib/chat-request';
+import { getConversationStore } from '@/lib/conversation-store';
+import { isValidConversationId, type ConversationsResponse } from '@/lib/conversations';
+
+const createConversationSchema = z.object({
+  id: z.string().refine(isValidConversationId, 'Ids are 1-64 letters, digits, _ or -').optional(),
+  title: z.string().trim().min(1).max(200).optional(),
+});
+
+// Handle preflight OPTIONS request
+export async function OPTIONS() {
+  return preflightResponse();
+}
+
+/**
+ * Lists the key's conversations, most recent first
+ */
+export async function GET(req: Request) {
+  const context = await authenticateRequest(req);
+  if (!context) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+  logRequest(context, 'GET /api/conversations');
+
+  const body: ConversationsResponse = {
+    conversations: await getConversationStore().list(context.keyName),
+  };
+  return jsonResponse(body);
+}
+
+/**
+ * Creates an empty conversation: `{ id?, title? }`
+ */
+export async function POST(req: Request) {
+  const context = await authenticateRequest(req);
+  if (!context) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  let json: unknown;
+  try {
+    json = await req.json();
+  } catch {
+    return jsonResponse({ error: 'Invalid JSON body' }, 400);
+  }
+  const parsed = createConversationSchema.safeParse(json);
+  if (!parsed.success) {
+    return jsonResponse({ error: 'Invalid request body', issues: toIssues(parsed.error) }, 400);
+  }
+
+  const { id = nanoid(), title } = parsed.data;
+  logRequest(context, `POST /api/conversations id=${id}`);
+  return jsonResponse(await getConversationStore().create(context.keyName, { id, title }), 201);
+}
@@ -0,0 +1,27 @@
+import { authenticateRequest, jsonResponse, logRequest, preflightResponse } from '@/lib/api-route';
+import type { ModelsResponse } from '@/lib/models';
+import { getAvailableModels, getDefaultModelId, getProviderConfigError } from '@/lib/providers';
+import { getTranscriptionModel } from '@/lib/transcription';
+
+// Handle preflight OPTIONS request
+export async function OPTIONS() {
+  return preflightResponse();
+}
+
+export async function GET(req: Request) {
+  const context = await authenticateRequest(req);
+  if (!context) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+  if (getProviderConfigError()) {
+    return jsonResponse({ error: 'The model providers are misconfigured' }, 503);
+  }
+  logRequest(context, 'GET /api/models');
+
+  const body: ModelsResponse = {
+    models: getAvailableModels(),
+    defaultModelId: getDefaultModelId(),
+    transcriptionEnabled: getTranscriptionModel() !== undefined,
+  };
+  return jsonResponse(body);
+}
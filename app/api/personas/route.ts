@@ -0,0 +1,21 @@
+import { authenticateRequest, jsonResponse, logRequest, preflightResponse } from '@/lib/api-route';
+import { DEFAULT_PERSONA_ID, PERSONAS, toPersonaInfo, type PersonasResponse } from '@/lib/personas';
+
+// Handle preflight OPTIONS request
+export async function OPTIONS() {
+  return preflightResponse();
+}
+
+export async function GET(req: Request) {
+  const context = await authenticateRequest(req);
+  if (!context) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+  logRequest(context, 'GET /api/personas');
+
+  const body: PersonasResponse = {
+    personas: PERSONAS.map(toPersonaInfo),
+    defaultPersonaId: DEFAULT_PERSONA_ID,
+  };
+  return jsonResponse(body);
+}
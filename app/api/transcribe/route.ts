@@ -0,0 +1,87 @@
+import { z } from 'zod';
+import { authenticateRequest, jsonResponse, logRequest, preflightResponse } from '@/lib/api-route';
+import { dataUrlByteLength, getChatRequestLimits, toIssues } from '@/lib/chat-request';
+import { ImageRejectedError, sanitizeImage } from '@/lib/image-sanitizer';
+import { getProviderConfigError } from '@/lib/providers';
+import { checkRateLimit, rateLimitResponse, recordTokenUsage } from '@/lib/rate-limit';
+import { getTranscriptionModel, transcribeImage } from '@/lib/transcription';
+import { recordUsage, toResponseUsage } from '@/lib/usage-ledger';
+
+export const maxDuration = 30;
+
+const transcribeRequestSchema = z.object({
+  image: z.object({
+    url: z.string().startsWith('data:', 'Images must be data URLs'),
+    mediaType: z.string().startsWith('image/'),
+  }),
+});
+
+// Handle preflight OPTIONS request
+export async function OPTIONS() {
+  return preflightResponse();
+}
+
+/**
+ * Reads the handwriting in a drawing: `{ image: { url, mediaType } }` to `{ text }`
+ */
+export async function POST(req: Request) {
+  const startedAt = Date.now();
+  const context = await authenticateRequest(req);
+  if (!context) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+  if (getProviderConfigError()) {
+    return jsonResponse({ error: 'The model providers are misconfigured' }, 503);
+  }
+
+  const model = getTranscriptionModel();
+  if (!model) {
+    return jsonResponse({ error: 'Transcription is not enabled' }, 503);
+  }
+
+  let json: unknown;
+  try {
+    json = await req.json();
+  } catch {
+    return jsonResponse({ error: 'Invalid JSON body' }, 400);
+  }
+  const parsed = transcribeRequestSchema.safeParse(json);
+  if (!parsed.success) {
+    return jsonResponse({ error: 'Invalid request body', issues: toIssues(parsed.error) }, 400);
+  }
+
+  const { maxImageBytes } = getChatRequestLimits();
+  const { image } = parsed.data;
+  if (dataUrlByteLength(image.url) > maxImageBytes) {
+    return jsonResponse({ error: `Image exceeds ${maxImageBytes} bytes` }, 413);
+  }
+
+  const limit = await checkRateLimit(context.keyName);
+  if (!limit.allowed) {
+    logRequest(context, `POST /api/transcribe rejected: ${limit.reason}`);
+    return rateLimitResponse(limit);
+  }
+
+  let sanitized;
+  try {
+    sanitized = await sanitizeImage(image.mediaType, image.url);
+  } catch (error) {
+    if (error instanceof ImageRejectedError) {
+      return jsonResponse({ error: 'Invalid image', issues: [{ path: 'image', message: error.message }] }, 400);
+    }
+    throw error;
+  }
+
+  logRequest(context, `POST /api/transcribe model=${model.id}`);
+  let transcription;
+  try {
+    transcription = await transcribeImage(model, sanitized);
+  } catch (error) {
+    console.error('Transcription failed:', error);
+    return jsonResponse({ error: 'Transcription failed' }, 502);
+  }
+  const { text, usage } = transcription;
+  await recordTokenUsage(context.keyName, usage.totalTokens ?? 0);
+  await recordUsage(context, 'transcribe', toResponseUsage(model, usage, startedAt));
+  return jsonResponse({ text });
+}
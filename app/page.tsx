@@ -23,11 +23,31 @@ import {
   PromptInputTextarea,
   PromptInputFooter,
   PromptInputTools,
+  PromptInputProvider,
+  PromptInputSelect,
+  PromptInputSelectContent,
+  PromptInputSelectItem,
+  PromptInputSelectTrigger,
+  PromptInputSelectValue,
+  usePromptInputController,
 } from '@/components/ai-elements/prompt-input';
-import { useState } from 'react';
+import { Fragment, useEffect, useRef, useState } from 'react';
 import { useChat } from '@ai-sdk/react';
-import { DefaultChatTransport } from 'ai';
-import { CopyIcon, RefreshCcwIcon, KeyboardIcon, PenToolIcon, PlusIcon } from 'lucide-react';
+import { nanoid } from 'nanoid';
+import { DefaultChatTransport, isToolUIPart, type FileUIPart } from 'ai';
+import {
+  CopyIcon,
+  RefreshCcwIcon,
+  KeyboardIcon,
+  PenToolIcon,
+  PlusIcon,
+  PaperclipIcon,
+  LayersIcon,
+  SendIcon,
+  ImageIcon,
+  GlobeIcon,
+  PanelLeftIcon,
+} from 'lucide-react';
 import {
   Source,
   Sources,
@@ -40,43 +60,178 @@ import {
   ReasoningTrigger,
 } from '@/components/ai-elements/reasoning';
 import { Loader } from '@/components/ai-elements/loader';
+import { Tool, ToolContent, ToolHeader, ToolInput, ToolOutput } from '@/components/ai-elements/tool';
+import {
+  ModelSelector,
+  ModelSelectorContent,
+  ModelSelectorEmpty,
+  ModelSelectorGroup,
+  ModelSelectorInput,
+  ModelSelectorItem,
+  ModelSelectorList,
+  ModelSelectorLogo,
+  ModelSelectorName,
+  ModelSelectorTrigger,
+} from '@/components/ai-elements/model-selector';
+import {
+  Context,
+  ContextCacheUsage,
+  ContextContent,
+  ContextContentBody,
+  ContextContentFooter,
+  ContextContentHeader,
+  ContextInputUsage,
+  ContextOutputUsage,
+  ContextReasoningUsage,
+  ContextTrigger,
+} from '@/components/ai-elements/context';
 
 import { useCanvasPlugin } from '@/lib/useCanvasPlugin';
+import { useModels } from '@/lib/useModels';
+import { usePersonas } from '@/lib/usePersonas';
+import { getConversationUsage } from '@/lib/usage';
+import { findLatestSummary, foldSummarizedTurns } from '@/lib/history-summary';
+import { isPendingToolCall } from '@/lib/tool-approval';
+import type { Drawing, OpenCanvasOptions } from '@/lib/canvas-plugin';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
-import { API_KEY, API_BASE_URL } from '@/lib/api-config';
+import { API_BASE_URL } from '@/lib/api-config';
+import { describeChatError } from '@/lib/chat-error';
+import { authFetch } from '@/lib/device-auth';
+import { useDeviceEnrollment } from '@/lib/useDeviceEnrollment';
+import { DeviceEnrollment } from '@/components/DeviceEnrollment';
+import { TranscriptionCaption } from '@/components/TranscriptionCaption';
+import { HistorySummaryEnd, HistorySummaryMarker } from '@/components/HistorySummaryMarker';
+import { ToolApprovalCard } from '@/components/ToolApprovalCard';
+import { ConversationSidebar } from '@/components/ConversationSidebar';
+import { CANVAS_FILENAME_PREFIX, type ChatUIMessage } from '@/lib/chat-message';
+import { useTranscriptions } from '@/lib/useTranscriptions';
+import { compactHistory } from '@/lib/history-compaction';
+import { useLocalConversation } from '@/lib/useLocalConversation';
 
-const models = [
-  {
-    name: 'DevBoost/SelfHosted/OpenAI/gpt-oss-20b',
-    value: 'DevBoost/SelfHosted/OpenAI/gpt-oss-20b',
-  }
-];
-const ChatBotDemo = () => {
-  const [input, setInput] = useState('');
-  const [model] = useState<string>(models[0].value);
+// Keep canvas submissions well below request body limits on slow connections
+const canvasOptions: OpenCanvasOptions = {
+  exportFormat: 'png',
+  maxBytes: 2 * 1024 * 1024,
+};
+
+const canvasFileExtensions: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+// Staged drawings are edited on their own draft so the conversation's
+// half-finished drawing is left alone
+const stagedDraftId = (filename: string) => `staged:${filename}`;
+
+const ChatView = () => {
+  const { textInput, attachments } = usePromptInputController();
+  const { models, defaultModelId, transcriptionEnabled } = useModels();
+  const [selectedModelId, setSelectedModelId] = useState<string>();
+  const [isModelSelectorOpen, setIsModelSelectorOpen] = useState(false);
+  // Until the user picks one, follow the server's default
+  const model = selectedModelId ?? defaultModelId;
+  const selectedModel = models.find((m) => m.id === model);
+  const { personas, defaultPersonaId } = usePersonas();
+  const [selectedPersonaId, setSelectedPersonaId] = useState<string>();
+  const persona = selectedPersonaId ?? defaultPersonaId;
+  // Until personas load, assume search is allowed and let the server decide
+  const searchAllowed = personas.find((p) => p.id === persona)?.tools.includes('webSearch') ?? true;
+  const { conversationId, initialMessages, newConversation, openConversation, saveConversation } =
+    useLocalConversation();
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
   const [inputMode, setInputMode] = useState<'canvas' | 'keyboard'>('canvas');
-  const { messages, sendMessage, status, regenerate, setMessages } = useChat({
+  const [webSearch, setWebSearch] = useState(false);
+  // 'stage' puts submitted drawings in the attachment tray instead of sending them
+  const [canvasSubmitMode, setCanvasSubmitMode] = useState<'send' | 'stage'>('send');
+  // Strokes behind staged canvas attachments, keyed by filename, for re-opening
+  const [stagedDrawings, setStagedDrawings] = useState<Record<string, Drawing>>({});
+  const editingAttachment = useRef<(FileUIPart & { id: string }) | null>(null);
+  // useChat keeps the first transport for the conversation, so it reads models through a ref
+  const modelsRef = useRef(models);
+  useEffect(() => {
+    modelsRef.current = models;
+  }, [models]);
+  const { messages, setMessages, sendMessage, status, regenerate, error } = useChat<ChatUIMessage>({
+    id: conversationId,
+    messages: initialMessages,
     transport: new DefaultChatTransport({
       api: `${API_BASE_URL}/api/chat`,
-      headers: {
-        'x-api-key': API_KEY,
+      // Adds the device access token, refreshing it transparently
+      fetch: authFetch,
+      // Old drawings go up as their transcriptions; the server compacts the same
+      // way. The newest message goes up whole so the server can save it.
+      prepareSendMessagesRequest: ({ id, messages, body, trigger, messageId }) => {
+        const requested = modelsRef.current.find((m) => m.id === body?.model);
+        // Turns covered by a summary are sent as the summary alone
+        const history = foldSummarizedTurns(messages);
+        return {
+          body: {
+            ...body,
+            id,
+            messages: requested
+              ? [...compactHistory(history.slice(0, -1), requested.keepRecentImages), ...history.slice(-1)]
+              : history,
+            trigger,
+            messageId,
+            // Lets the server work out "today" for the user
+            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          },
+        };
       },
     }),
   });
   
+  // Save once a response has finished (or failed), and again when captions arrive
+  useEffect(() => {
+    if (status === 'ready' || status === 'error') {
+      saveConversation(messages);
+    }
+  }, [messages, status, saveConversation]);
+
+  // Captions drawings with what the transcription pass read from them
+  useTranscriptions({ messages, setMessages, enabled: transcriptionEnabled });
+
+  const conversationUsage = getConversationUsage(messages);
+  // Context fill is measured against the model that produced the latest response
+  const usageModel = conversationUsage && models.find((m) => m.id === conversationUsage.latest.modelId);
+
+  // Turns folded into a summary stay hidden until the user expands them
+  const latestSummary = findLatestSummary(messages);
+  const [expandedSummaryId, setExpandedSummaryId] = useState<string>();
+  const showSummarizedTurns = latestSummary !== undefined && latestSummary.summary.throughMessageId === expandedSummaryId;
+  const visibleMessages =
+    latestSummary && !showSummarizedTurns ? messages.slice(latestSummary.throughIndex + 1) : messages;
+
   // Canvas plugin integration
   const { openCanvas, clearCanvas, hasUnsavedContent, isCanvasOpen } = useCanvasPlugin({
-    onSubmit: (imageData) => {
+    conversationId,
+    canvasOptions,
+    onSubmit: (imageData, mediaType, drawing) => {
       console.log('Canvas submitted with image data length:', imageData.length);
+
+      // An edited drawing replaces its attachment; new ones are staged in stage mode
+      const edited = editingAttachment.current;
+      if (edited || canvasSubmitMode === 'stage') {
+        if (edited) {
+          attachments.remove(edited.id);
+        }
+        stageCanvasImage(imageData, mediaType, drawing).catch((error) => {
+          console.error('Failed to stage canvas drawing:', error);
+        });
+        return;
+      }
       
-      // Convert base64 PNG to proper file attachment format
+      // Convert the base64 image to proper file attachment format
       const canvasFile = {
         type: 'file' as const,
         url: imageData, // Base64 data URL (data:image/png;base64,...)
-        mediaType: 'image/png',
-        filename: 'canvas-drawing.png',
+        mediaType,
+        filename: `${CANVAS_FILENAME_PREFIX}drawing.${canvasFileExtensions[mediaType] ?? 'png'}`,
       };
       
       // Send the image as a message attachment (no text, just the image)
@@ -87,7 +242,9 @@ const ChatBotDemo = () => {
         },
         {
           body: {
-            model: model
+            model: model,
+            webSearch: webSearch && searchAllowed,
+            persona,
           },
         },
       );
@@ -104,7 +261,31 @@ const ChatBotDemo = () => {
   });
 
 
-  
+  const stageCanvasImage = async (imageData: string, mediaType: string, drawing?: Drawing) => {
+    const blob = await (await fetch(imageData)).blob();
+    const filename = `${CANVAS_FILENAME_PREFIX}${nanoid(8)}.${canvasFileExtensions[mediaType] ?? 'png'}`;
+    attachments.add([new File([blob], filename, { type: mediaType })]);
+
+    // Filenames are unique, so a quick second export cannot overwrite this
+    // one; drawings removed from the tray are dropped when the message is sent
+    if (drawing) {
+      setStagedDrawings((previous) => ({ ...previous, [filename]: drawing }));
+    }
+  };
+
+  const editStagedDrawing = async (attachment: FileUIPart & { id: string }) => {
+    const drawing = attachment.filename ? stagedDrawings[attachment.filename] : undefined;
+    if (!attachment.filename || !drawing || isCanvasOpen) {
+      return;
+    }
+
+    editingAttachment.current = attachment;
+    try {
+      await openCanvas({ draftId: stagedDraftId(attachment.filename), initialDrawing: drawing });
+    } finally {
+      editingAttachment.current = null;
+    }
+  };
 
   const handleSubmit = (message: PromptInputMessage) => {
     const hasText = Boolean(message.text);
@@ -119,208 +300,461 @@ const ChatBotDemo = () => {
       },
       {
         body: {
-          model: model
+          model: model,
+          webSearch: webSearch && searchAllowed,
+          persona,
         },
       },
     );
-    setInput('');
+
+    // Staged drawings went out with the message, or were removed from the
+    // tray before it; drop any edits left on their drafts
+    for (const filename of Object.keys(stagedDrawings)) {
+      clearCanvas(stagedDraftId(filename));
+    }
+    setStagedDrawings({});
+  };
+
+  // Records the user's answer to a paused tool call. Once every call in the
+  // message is answered, the server runs or declines them and the reply continues.
+  const respondToToolCall = (messageId: string, toolCallId: string, approved: boolean) => {
+    // Read the chat's current messages, not this render's: answering several
+    // calls quickly must not drop the earlier answers
+    let answered = false;
+    setMessages((current) =>
+      current.map((message) => {
+        if (message.id !== messageId) {
+          return message;
+        }
+        const approvals = { ...message.metadata?.approvals, [toolCallId]: { approved, decidedAt: Date.now() } };
+        answered = message.parts.every((part) => !isPendingToolCall(part) || approvals[part.toolCallId]);
+        return { ...message, metadata: { ...message.metadata, approvals } };
+      }),
+    );
+
+    if (answered) {
+      sendMessage(undefined, { body: { model, webSearch: webSearch && searchAllowed, persona } });
+    }
   };
 
-  const handleNewConversation = async () => {
-    // Clear messages
-    setMessages([]);
-    // Clear canvas state
-    await clearCanvas();
+  const handleSelectPersona = (id: string) => {
+    setSelectedPersonaId(id);
+    // Switch to the persona's preferred model when it is offered
+    const defaultModel = personas.find((p) => p.id === id)?.defaultModelId;
+    if (defaultModel && models.some((m) => m.id === defaultModel)) {
+      setSelectedModelId(defaultModel);
+    }
+  };
+
+  const handleNewConversation = () => {
+    // A new id starts an empty chat and an empty canvas draft; the previous
+    // conversation and its drawing stay saved under their own id
+    newConversation();
     // Reset input
-    setInput('');
+    textInput.clear();
+  };
+  const handleSelectConversation = (id: string) => {
+    if (id === conversationId) {
+      return;
+    }
+    openConversation(id).catch((error) => {
+      console.error('Failed to open conversation:', error);
+    });
+    textInput.clear();
   };
+
   return (
-    <div className="max-w-4xl mx-auto relative size-full h-screen" style={{
-      paddingTop: 'max(3rem, env(safe-area-inset-top))',
-      paddingBottom: 'max(3rem, env(safe-area-inset-bottom))',
-      paddingLeft: 'max(1.5rem, env(safe-area-inset-left))',
-      paddingRight: 'max(1.5rem, env(safe-area-inset-right))',
-    }}>
-      <div className="flex flex-col h-full">
-        {/* Header with New Conversation Button */}
-        <div className="flex justify-between items-center mb-4">
-          <h1 className="text-2xl font-bold">Chatty Pencil</h1>
-          <Button
-            onClick={handleNewConversation}
-            variant="outline"
-            size="sm"
-            className="flex items-center gap-2"
-          >
-            <PlusIcon className="size-4" />
-            New Conversation
-          </Button>
-        </div>
+    <div className="flex h-screen">
+      {isSidebarOpen && (
+        <ConversationSidebar
+          activeConversationId={conversationId}
+          onSelect={handleSelectConversation}
+          onDelete={(id) => {
+            if (id === conversationId) {
+              handleNewConversation();
+            }
+          }}
+          className="w-72 shrink-0 pt-[max(3rem,env(safe-area-inset-top))] pl-[env(safe-area-inset-left)]"
+        />
+      )}
+      <div className="max-w-4xl mx-auto relative size-full h-screen min-w-0" style={{
+        paddingTop: 'max(3rem, env(safe-area-inset-top))',
+        paddingBottom: 'max(3rem, env(safe-area-inset-bottom))',
+        paddingLeft: 'max(1.5rem, env(safe-area-inset-left))',
+        paddingRight: 'max(1.5rem, env(safe-area-inset-right))',
+      }}>
+        <div className="flex flex-col h-full">
+          {/* Header with New Conversation Button */}
+          <div className="flex justify-between items-center mb-4">
+            <div className="flex items-center gap-2">
+              <Button
+                onClick={() => setIsSidebarOpen(!isSidebarOpen)}
+                variant="ghost"
+                size="icon"
+                aria-label={isSidebarOpen ? 'Hide conversations' : 'Show conversations'}
+                aria-pressed={isSidebarOpen}
+              >
+                <PanelLeftIcon className="size-5" />
+              </Button>
+              <h1 className="text-2xl font-bold">Chatty Pencil</h1>
+            </div>
+            <div className="flex items-center gap-2">
+              {conversationUsage && usageModel && (
+                <Context
+                  maxTokens={usageModel.contextWindow}
+                  usedTokens={conversationUsage.latest.inputTokens + conversationUsage.latest.outputTokens}
+                  usage={conversationUsage.total}
+                  modelId={usageModel.pricingModelId}
+                >
+                  <ContextTrigger size="sm" />
+                  <ContextContent>
+                    <ContextContentHeader />
+                    <ContextContentBody>
+                      <ContextInputUsage />
+                      <ContextOutputUsage />
+                      <ContextReasoningUsage />
+                      <ContextCacheUsage />
+                    </ContextContentBody>
+                    <ContextContentFooter />
+                  </ContextContent>
+                </Context>
+              )}
+              <Button
+                onClick={handleNewConversation}
+                variant="outline"
+                size="sm"
+                className="flex items-center gap-2"
+              >
+                <PlusIcon className="size-4" />
+                New Conversation
+              </Button>
+            </div>
+          </div>
 
         
-        <Conversation className="h-full">
-          <ConversationContent>
-            {messages.map((message) => (
-              <div key={message.id}>
-                {message.role === 'assistant' && message.parts.filter((part) => part.type === 'source-url').length > 0 && (
-                  <Sources>
-                    <SourcesTrigger
-                      count={
-                        message.parts.filter(
-                          (part) => part.type === 'source-url',
-                        ).length
-                      }
-                    />
-                    {message.parts.filter((part) => part.type === 'source-url').map((part, i) => (
-                      <SourcesContent key={`${message.id}-${i}`}>
-                        <Source
-                          key={`${message.id}-${i}`}
-                          href={part.url}
-                          title={part.url}
-                        />
-                      </SourcesContent>
-                    ))}
-                  </Sources>
-                )}
-                {message.parts.map((part, i) => {
-                  switch (part.type) {
-                    case 'text':
-                      // Hide empty text parts visually (e.g., canvas-only messages)
-                      const isEmpty = !part.text?.trim();
-                      return (
-                        <Message 
-                          key={`${message.id}-${i}`} 
-                          from={message.role}         
-                          className={isEmpty ? 'sr-only' : ''}
-                        >
-                          <MessageContent>
-                            <MessageResponse>
-                              {part.text}
-                            </MessageResponse>
-                          </MessageContent>
-                          {message.role === 'assistant' && i === messages.length - 1 && (
-                            <MessageActions>
-                              <MessageAction
-                                onClick={() => regenerate()}
-                                label="Retry"
-                              >
-                                <RefreshCcwIcon className="size-3" />
-                              </MessageAction>
-                              <MessageAction
-                                onClick={() =>
-                                  navigator.clipboard.writeText(part.text)
-                                }
-                                label="Copy"
-                              >
-                                <CopyIcon className="size-3" />
-                              </MessageAction>
-                            </MessageActions>
-                          )}
-                        </Message>
-                      );
-                    case 'file':
-                      // Handle canvas image attachments
-                      if (part.mediaType?.startsWith('image/')) {
+          <Conversation className="h-full">
+            <ConversationContent>
+              {latestSummary && (
+                <HistorySummaryMarker
+                  summary={latestSummary.summary}
+                  messageCount={latestSummary.throughIndex + 1}
+                  expanded={showSummarizedTurns}
+                  onExpandedChange={(expanded) =>
+                    setExpandedSummaryId(expanded ? latestSummary.summary.throughMessageId : undefined)
+                  }
+                />
+              )}
+              {visibleMessages.map((message, index) => (
+                <div key={message.id}>
+                  {showSummarizedTurns && index === latestSummary.throughIndex + 1 && <HistorySummaryEnd />}
+                  {message.role === 'assistant' && message.parts.filter((part) => part.type === 'source-url').length > 0 && (
+                    <Sources>
+                      <SourcesTrigger
+                        count={
+                          message.parts.filter(
+                            (part) => part.type === 'source-url',
+                          ).length
+                        }
+                      />
+                      {message.parts.filter((part) => part.type === 'source-url').map((part, i) => (
+                        <SourcesContent key={`${message.id}-${i}`}>
+                          <Source
+                            key={`${message.id}-${i}`}
+                            href={part.url}
+                            title={part.url}
+                          />
+                        </SourcesContent>
+                      ))}
+                    </Sources>
+                  )}
+                  {message.parts.map((part, i) => {
+                    switch (part.type) {
+                      case 'text':
+                        // Hide empty text parts visually (e.g., canvas-only messages)
+                        const isEmpty = !part.text?.trim();
                         return (
-                          <Message key={`${message.id}-${i}`} from={message.role}>
+                          <Message 
+                            key={`${message.id}-${i}`} 
+                            from={message.role}         
+                            className={isEmpty ? 'sr-only' : ''}
+                          >
                             <MessageContent>
-                              <div className="max-w-md">
-                                <img 
-                                  src={part.url} 
-                                  alt={part.filename || 'Canvas drawing'} 
-                                  className="rounded-lg border shadow-sm max-w-full h-auto"
-                                />
-                              </div>
+                              <MessageResponse>
+                                {part.text}
+                              </MessageResponse>
                             </MessageContent>
+                            {message.role === 'assistant' && i === messages.length - 1 && (
+                              <MessageActions>
+                                <MessageAction
+                                  onClick={() =>
+                                    regenerate({ body: { model, webSearch: webSearch && searchAllowed, persona } })
+                                  }
+                                  label="Retry"
+                                >
+                                  <RefreshCcwIcon className="size-3" />
+                                </MessageAction>
+                                <MessageAction
+                                  onClick={() =>
+                                    navigator.clipboard.writeText(part.text)
+                                  }
+                                  label="Copy"
+                                >
+                                  <CopyIcon className="size-3" />
+                                </MessageAction>
+                              </MessageActions>
+                            )}
                           </Message>
                         );
-                      }
-                      return null;
-                    case 'reasoning':
-                      return (
-                        <Reasoning
-                          key={`${message.id}-${i}`}
-                          className="w-full"
-                          isStreaming={status === 'streaming' && i === message.parts.length - 1 && message.id === messages.at(-1)?.id}
-                        >
-                          <ReasoningTrigger />
-                          <ReasoningContent>{part.text}</ReasoningContent>
-                        </Reasoning>
-                      );
-                    default:
-                      return null;
-                  }
-                })}
+                      case 'file':
+                        // Handle canvas image attachments
+                        if (part.mediaType?.startsWith('image/')) {
+                          const transcription = message.metadata?.transcriptions?.[i];
+                          return (
+                            <Message key={`${message.id}-${i}`} from={message.role}>
+                              <MessageContent>
+                                <div className="max-w-md">
+                                  <img 
+                                    src={part.url} 
+                                    alt={transcription || part.filename || 'Canvas drawing'} 
+                                    className="rounded-lg border shadow-sm max-w-full h-auto"
+                                  />
+                                  {transcription && <TranscriptionCaption text={transcription} />}
+                                </div>
+                              </MessageContent>
+                            </Message>
+                          );
+                        }
+                        return null;
+                      case 'reasoning':
+                        return (
+                          <Reasoning
+                            key={`${message.id}-${i}`}
+                            className="w-full"
+                            isStreaming={status === 'streaming' && i === message.parts.length - 1 && message.id === messages.at(-1)?.id}
+                          >
+                            <ReasoningTrigger />
+                            <ReasoningContent>{part.text}</ReasoningContent>
+                          </Reasoning>
+                        );
+                      default:
+                        // Tool calls, e.g. tool-calculate; failures start open
+                        if (isToolUIPart(part)) {
+                          const approval = message.metadata?.approvals?.[part.toolCallId];
+                          // A call left pending when the response ended waits for the user's answer
+                          const awaitingApproval =
+                            !approval && isPendingToolCall(part) && status === 'ready' && message.id === messages.at(-1)?.id;
+                          return (
+                            <Fragment key={`${message.id}-${i}`}>
+                              {(approval || awaitingApproval) && (
+                                <ToolApprovalCard
+                                  part={part}
+                                  approval={approval}
+                                  onRespond={(approved) => respondToToolCall(message.id, part.toolCallId, approved)}
+                                />
+                              )}
+                              {!awaitingApproval && (
+                                <Tool defaultOpen={part.state === 'output-error'}>
+                                  <ToolHeader type={part.type} state={part.state} />
+                                  <ToolContent>
+                                    <ToolInput input={part.input} />
+                                    <ToolOutput output={part.output} errorText={part.errorText} />
+                                  </ToolContent>
+                                </Tool>
+                              )}
+                            </Fragment>
+                          );
+                        }
+                        return null;
+                    }
+                  })}
+                </div>
+              ))}
+              {status === 'submitted' && <Loader />}
+              {status === 'error' && error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{describeChatError(error)}</AlertDescription>
+                </Alert>
+              )}
+            </ConversationContent>
+            <ConversationScrollButton />
+          </Conversation>
+          <PromptInput onSubmit={handleSubmit} accept="image/*" className="mt-4">
+            <PromptInputHeader>
+              <PromptInputAttachments>
+                {(attachment) => (
+                  <PromptInputAttachment
+                    data={attachment}
+                    onClick={() => editStagedDrawing(attachment)}
+                    title={attachment.filename && stagedDrawings[attachment.filename] ? 'Tap to edit drawing' : undefined}
+                  />
+                )}
+              </PromptInputAttachments>
+            </PromptInputHeader>
+            {inputMode === 'canvas' ? (
+              /* Canvas Mode - Replace textarea with prominent canvas button */
+              <div className="w-full p-3">
+                <Button
+                  onClick={() => openCanvas()}
+                  disabled={isCanvasOpen}
+                  size="lg"
+                  className={cn(
+                    "w-full h-12 text-lg font-medium relative",
+                    hasUnsavedContent && "bg-blue-600 hover:bg-blue-700"
+                  )}
+                >
+                  <PenToolIcon className="mr-3 size-5" />
+                  {hasUnsavedContent ? 'Continue Drawing' : 'Open Canvas'}
+                  {hasUnsavedContent && (
+                    <div className="absolute -top-1 -right-1 size-3 bg-orange-500 rounded-full border-2 border-white animate-pulse" />
+                  )}
+                </Button>
               </div>
-            ))}
-            {status === 'submitted' && <Loader />}
-          </ConversationContent>
-          <ConversationScrollButton />
-        </Conversation>
-        <PromptInput onSubmit={handleSubmit} className="mt-4">
-          <PromptInputHeader>
-            <PromptInputAttachments>
-              {(attachment) => <PromptInputAttachment data={attachment} />}
-            </PromptInputAttachments>
-          </PromptInputHeader>
-          {inputMode === 'canvas' ? (
-            /* Canvas Mode - Replace textarea with prominent canvas button */
-            <div className="w-full p-3">
-              <Button
-                onClick={openCanvas}
-                disabled={isCanvasOpen}
-                size="lg"
-                className={cn(
-                  "w-full h-12 text-lg font-medium relative",
-                  hasUnsavedContent && "bg-blue-600 hover:bg-blue-700"
+            ) : (
+              /* Keyboard Mode - Standard textarea */
+              <PromptInputBody>
+                <PromptInputTextarea placeholder="Type your message..." />
+              </PromptInputBody>
+            )}
+            <PromptInputFooter>
+              <PromptInputTools>
+                {/* Input Mode Toggle Button */}
+                <PromptInputButton
+                  onClick={() => setInputMode(inputMode === 'canvas' ? 'keyboard' : 'canvas')}
+                  variant="ghost"
+                  size="sm"
+                  className="flex items-center gap-2"
+                >
+                  {inputMode === 'canvas' ? (
+                    <>
+                      <KeyboardIcon className="size-4" />
+                      <span>Switch to keyboard</span>
+                    </>
+                  ) : (
+                    <>
+                      <PenToolIcon className="size-4" />
+                      <span>Switch to canvas</span>
+                    </>
+                  )}
+                </PromptInputButton>
+                {/* Web Search Toggle Button, for personas that may search */}
+                {searchAllowed && (
+                  <PromptInputButton
+                    onClick={() => setWebSearch(!webSearch)}
+                    variant={webSearch ? 'default' : 'ghost'}
+                    size="sm"
+                    className="flex items-center gap-2"
+                    aria-pressed={webSearch}
+                  >
+                    <GlobeIcon className="size-4" />
+                    <span>Search</span>
+                  </PromptInputButton>
                 )}
-              >
-                <PenToolIcon className="mr-3 size-5" />
-                {hasUnsavedContent ? 'Continue Drawing' : 'Open Canvas'}
-                {hasUnsavedContent && (
-                  <div className="absolute -top-1 -right-1 size-3 bg-orange-500 rounded-full border-2 border-white animate-pulse" />
+                {/* Canvas Submit Mode Toggle Button */}
+                <PromptInputButton
+                  onClick={() => setCanvasSubmitMode(canvasSubmitMode === 'send' ? 'stage' : 'send')}
+                  variant="ghost"
+                  size="sm"
+                  className="flex items-center gap-2"
+                >
+                  {canvasSubmitMode === 'send' ? (
+                    <>
+                      <LayersIcon className="size-4" />
+                      <span>Stage drawings</span>
+                    </>
+                  ) : (
+                    <>
+                      <SendIcon className="size-4" />
+                      <span>Send drawings immediately</span>
+                    </>
+                  )}
+                </PromptInputButton>
+                <PromptInputButton
+                  onClick={() => attachments.openFileDialog()}
+                  variant="ghost"
+                  size="sm"
+                  aria-label="Add photo"
+                >
+                  <PaperclipIcon className="size-4" />
+                </PromptInputButton>
+                {/* Persona Picker */}
+                {personas.length > 0 && persona && (
+                  <PromptInputSelect value={persona} onValueChange={handleSelectPersona}>
+                    <PromptInputSelectTrigger size="sm" aria-label="Persona">
+                      <PromptInputSelectValue />
+                    </PromptInputSelectTrigger>
+                    <PromptInputSelectContent>
+                      {personas.map((p) => (
+                        <PromptInputSelectItem key={p.id} value={p.id} title={p.description}>
+                          {p.name}
+                        </PromptInputSelectItem>
+                      ))}
+                    </PromptInputSelectContent>
+                  </PromptInputSelect>
                 )}
-              </Button>
-            </div>
-          ) : (
-            /* Keyboard Mode - Standard textarea */
-            <PromptInputBody>
-              <PromptInputTextarea
-                onChange={(e) => setInput(e.target.value)}
-                value={input}
-                placeholder="Type your message..."
-              />
-            </PromptInputBody>
-          )}
-          <PromptInputFooter>
-            <PromptInputTools>
-              {/* Input Mode Toggle Button */}
-              <PromptInputButton
-                onClick={() => setInputMode(inputMode === 'canvas' ? 'keyboard' : 'canvas')}
-                variant="ghost"
-                size="sm"
-                className="flex items-center gap-2"
-              >
-                {inputMode === 'canvas' ? (
-                  <>
-                    <KeyboardIcon className="size-4" />
-                    <span>Switch to keyboard</span>
-                  </>
-                ) : (
-                  <>
-                    <PenToolIcon className="size-4" />
-                    <span>Switch to canvas</span>
-                  </>
+                {/* Model Selector */}
+                {models.length > 0 && (
+                  <ModelSelector open={isModelSelectorOpen} onOpenChange={setIsModelSelectorOpen}>
+                    <ModelSelectorTrigger asChild>
+                      <PromptInputButton variant="ghost" size="sm" className="flex items-center gap-2">
+                        {selectedModel && <ModelSelectorLogo provider={selectedModel.vendor} />}
+                        <ModelSelectorName>{selectedModel?.label ?? 'Select model'}</ModelSelectorName>
+                      </PromptInputButton>
+                    </ModelSelectorTrigger>
+                    <ModelSelectorContent>
+                      <ModelSelectorInput placeholder="Search models..." />
+                      <ModelSelectorList>
+                        <ModelSelectorEmpty>No models found.</ModelSelectorEmpty>
+                        <ModelSelectorGroup heading="Models">
+                          {models.map((m) => (
+                            <ModelSelectorItem
+                              key={m.id}
+                              value={`${m.label} ${m.id}`}
+                              onSelect={() => {
+                                setSelectedModelId(m.id);
+                                setIsModelSelectorOpen(false);
+                              }}
+                            >
+                              <ModelSelectorLogo provider={m.vendor} />
+                              <ModelSelectorName>{m.label}</ModelSelectorName>
+                              {/* Drawings are sent as images, so flag the models that can read them */}
+                              {m.supportsVision && (
+                                <ImageIcon aria-label="Reads drawings" className="size-3 text-muted-foreground" />
+                              )}
+                            </ModelSelectorItem>
+                          ))}
+                        </ModelSelectorGroup>
+                      </ModelSelectorList>
+                    </ModelSelectorContent>
+                  </ModelSelector>
                 )}
-              </PromptInputButton>
-            </PromptInputTools>
-            {/* Only show submit button in keyboard mode */}
-            {inputMode === 'keyboard' && (
-              <PromptInputSubmit disabled={!input && status !== 'streaming'} status={status} />
-            )}
-          </PromptInputFooter>
-        </PromptInput>
+              </PromptInputTools>
+              {/* Show submit button in keyboard mode or when attachments are staged */}
+              {(inputMode === 'keyboard' || attachments.files.length > 0) && (
+                <PromptInputSubmit
+                  disabled={!textInput.value && !attachments.files.length && status !== 'streaming'}
+                  status={status}
+                />
+              )}
+            </PromptInputFooter>
+          </PromptInput>
+        </div>
       </div>
     </div>
   );
 };
+
+// The provider lifts the prompt's text and attachments so canvas drawings can
+// be staged into the attachment tray from outside the form
+const ChatBotDemo = () => {
+  const { needsEnrollment, enroll } = useDeviceEnrollment();
+  if (needsEnrollment) {
+    return <DeviceEnrollment onEnroll={enroll} />;
+  }
+
+  return (
+    <PromptInputProvider>
+      <ChatView />
+    </PromptInputProvider>
+  );
+};
 export default ChatBotDemo;
\ No newline at end of file
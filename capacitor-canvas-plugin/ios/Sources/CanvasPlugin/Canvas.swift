@@ -1,6 +1,7 @@
 import Foundation
 import UIKit
 import PencilKit
+import Capacitor
 
 // MARK: - BoundingBox
 struct BoundingBox {
@@ -37,26 +38,101 @@ struct ScalingResult {
 }
 
 @objc public class Canvas: NSObject {
-    // Static property to preserve drawing state across minimize/reopen
-    private static var preservedDrawing: PKDrawing?
+    // Drafts are persisted to disk so a minimized drawing survives app restarts
+    private let draftStore = DraftStore.shared
     
-    @objc public func clearCanvas() {
-        Canvas.preservedDrawing = nil
+    /// Deletes the given draft, or the active one when no id is given
+    @objc public func clearCanvas(draftId: String? = nil) {
+        if let targetId = draftId ?? draftStore.activeDraftId {
+            draftStore.deleteDraft(withId: targetId)
+        }
     }
     
-    @objc public func hasContent() -> Bool {
-        guard let drawing = Canvas.preservedDrawing else {
+    @objc public func hasContent(draftId: String? = nil) -> Bool {
+        guard let drawing = getPreservedDrawing(draftId: draftId) else {
             return false
         }
         return !drawing.strokes.isEmpty
     }
     
-    @objc public func getPreservedDrawing() -> PKDrawing? {
-        return Canvas.preservedDrawing
+    @objc public func getPreservedDrawing(draftId: String? = nil) -> PKDrawing? {
+        return (draftId ?? draftStore.activeDraftId).flatMap { draftStore.drawing(forDraftId: $0) }
+    }
+    
+    /// Saves the drawing to the given draft (or the active one, creating it if
+    /// needed) and makes that draft active
+    public func setPreservedDrawing(_ drawing: PKDrawing?, canvasSize: CGSize, draftId: String? = nil) {
+        // Nothing worth keeping: drop the draft instead of saving an empty canvas
+        guard let drawing = drawing, !drawing.strokes.isEmpty else {
+            clearCanvas(draftId: draftId)
+            return
+        }
+        
+        let targetId = draftId ?? draftStore.activeDraftId ?? UUID().uuidString
+        draftStore.save(drawing, canvasSize: canvasSize, draftId: targetId)
+        draftStore.activeDraftId = targetId
+    }
+    
+    /// Makes the given draft id active even if nothing has been saved under it yet
+    public func activateDraft(withId id: String) {
+        draftStore.activeDraftId = id
     }
     
-    @objc public func setPreservedDrawing(_ drawing: PKDrawing?) {
-        Canvas.preservedDrawing = drawing
+    /// Keeps the active draft but stops continuing it, so the next canvas starts empty
+    public func parkActiveDraft() {
+        draftStore.activeDraftId = nil
+    }
+    
+    /// Makes a saved draft the active one
+    /// - Returns: false if no draft with that id exists
+    public func restoreDraft(withId id: String) -> Bool {
+        guard draftStore.draft(withId: id) != nil else {
+            return false
+        }
+        draftStore.activeDraftId = id
+        return true
+    }
+    
+    /// Saved drafts and the active draft id, shaped like `ListDraftsResult`
+    public func listDrafts() -> JSObject {
+        let drafts: [JSValue] = draftStore.drafts.map { draft in
+            [
+                "id": draft.id,
+                "createdAt": draft.createdAt,
+                "updatedAt": draft.updatedAt,
+                "strokeCount": draft.strokeCount
+            ] as JSObject
+        }
+        return [
+            "drafts": drafts,
+            "activeDraftId": (draftStore.activeDraftId as JSValue?) ?? NSNull()
+        ]
+    }
+    
+    /// Preserved drawing in the JSON stroke format, or nil when there is none
+    public func getPreservedDrawingObject(draftId: String? = nil) -> JSObject? {
+        guard let targetId = draftId ?? draftStore.activeDraftId,
+              let drawing = draftStore.drawing(forDraftId: targetId),
+              !drawing.strokes.isEmpty else {
+            return nil
+        }
+        let draft = draftStore.draft(withId: targetId)
+        let canvasSize = CGSize(width: draft?.width ?? 0, height: draft?.height ?? 0)
+        return DrawingSerializer.toJSObject(drawing, canvasSize: canvasSize)
+    }
+    
+    /// Replaces the preserved drawing from the JSON stroke format
+    /// - Returns: false if the object is not a valid drawing
+    public func setPreservedDrawingObject(_ object: JSObject?, draftId: String? = nil) -> Bool {
+        guard let object = object else {
+            clearCanvas(draftId: draftId)
+            return true
+        }
+        guard let decoded = DrawingSerializer.drawing(from: object) else {
+            return false
+        }
+        setPreservedDrawing(decoded.drawing, canvasSize: decoded.canvasSize, draftId: draftId)
+        return true
     }
 }
 
@@ -65,7 +141,7 @@ import UIKit
 import PencilKit
 
 protocol CanvasViewControllerDelegate: AnyObject {
-    func canvasDidSubmit(imageData: String)
+    func canvasDidSubmit(imageData: String, mediaType: String, drawing: JSObject)
     func canvasDidMinimize(hasContent: Bool)
     func canvasDidCancel()
 }
@@ -78,6 +154,7 @@ class CanvasViewController: UIViewController {
     
     weak var delegate: CanvasViewControllerDelegate?
     var backgroundColor: String = "white"
+    var exportOptions = ExportOptions()
     
     override func viewDidLoad() {
         super.viewDidLoad()
@@ -190,41 +267,57 @@ class CanvasViewController: UIViewController {
         let clippedBox = clipPaddedBoxToCanvasBounds(paddedBox, canvasBounds: canvasView.bounds)
         
         // Call scaleIfNeeded to get final dimensions
-        let scalingResult = scaleIfNeeded(rect: clippedBox)
-        
-        // Export image using cropped region and scale factor
-        let drawingImage = canvasView.drawing.image(from: scalingResult.original, scale: scalingResult.scale)
-        
-        // Maintain existing white background rendering
-        let renderer = UIGraphicsImageRenderer(size: scalingResult.size)
-        let image = renderer.image { context in
-            // Fill with white background
-            UIColor.white.setFill()
-            context.fill(CGRect(origin: .zero, size: scalingResult.size))
-            // Draw the strokes on top
-            drawingImage.draw(at: .zero)
+        let scalingResult = scaleIfNeeded(rect: clippedBox, maxDimension: exportOptions.maxDimension)
+        
+        // Step down until the encoded image fits the byte budget, keeping the smallest attempt
+        var encoded: (data: Data, mediaType: String)?
+        var finalSize = scalingResult.size
+        for step in exportOptions.steps {
+            let scale = scalingResult.scale * step.dimensionScale
+            guard let candidate = DrawingEncoder.encode(
+                canvasView.drawing,
+                region: scalingResult.original,
+                scale: scale,
+                step: step,
+                options: exportOptions
+            ) else {
+                break
+            }
+            
+            let stepSize = CGSize(width: scalingResult.size.width * step.dimensionScale,
+                                  height: scalingResult.size.height * step.dimensionScale)
+            if encoded == nil || candidate.data.count < encoded!.data.count {
+                encoded = candidate
+                finalSize = stepSize
+            }
+            if let maxBytes = exportOptions.maxBytes, candidate.data.count > maxBytes {
+                continue
+            }
+            encoded = candidate
+            finalSize = stepSize
+            break
         }
         
         // Call logExportDimensions with all dimension info
         logExportDimensions(
             original: canvasView.bounds.size,
             cropped: clippedBox.size,
-            final: scalingResult.size
+            final: finalSize
         )
         
-        // Maintain existing base64 encoding
-        guard let pngData = image.pngData() else {
+        guard let encoded = encoded else {
             delegate?.canvasDidCancel()
             return
         }
         
-        let base64String = "data:image/png;base64," + pngData.base64EncodedString()
+        let base64String = "data:\(encoded.mediaType);base64," + encoded.data.base64EncodedString()
+        let drawingObject = DrawingSerializer.toJSObject(canvasView.drawing, canvasSize: canvasView.bounds.size)
         
         // Clear preserved state after successful submit
-        canvas.setPreservedDrawing(nil)
+        canvas.clearCanvas()
         
         dismiss(animated: true) {
-            self.delegate?.canvasDidSubmit(imageData: base64String)
+            self.delegate?.canvasDidSubmit(imageData: base64String, mediaType: encoded.mediaType, drawing: drawingObject)
         }
     }
     
@@ -240,7 +333,7 @@ class CanvasViewController: UIViewController {
     
     private func minimizeCanvas() {
         // Preserve current drawing
-        canvas.setPreservedDrawing(canvasView.drawing)
+        canvas.setPreservedDrawing(canvasView.drawing, canvasSize: canvasView.bounds.size)
         
         let hasContent = !canvasView.drawing.strokes.isEmpty
         
@@ -250,6 +343,7 @@ class CanvasViewController: UIViewController {
     }
     
     // MARK: - Bounding Box Calculation
+    // Keep in sync with src/ink-export.ts, the TypeScript port used on web
     
     func calculateBoundingBox(for drawing: PKDrawing) -> CGRect {
         var bbox = BoundingBox()
@@ -360,7 +454,7 @@ class CanvasViewController: UIViewController {
 extension CanvasViewController: UISheetPresentationControllerDelegate {
     func presentationControllerWillDismiss(_ presentationController: UIPresentationController) {
         // When user swipes down to dismiss, treat it as minimize (preserve canvas)
-        canvas.setPreservedDrawing(canvasView.drawing)
+        canvas.setPreservedDrawing(canvasView.drawing, canvasSize: canvasView.bounds.size)
     }
     
     func presentationControllerDidDismiss(_ presentationController: UIPresentationController) {
@@ -64,7 +64,12 @@ public class CanvasPlugin: CAPPlugin, CAPBridgedPlugin {
     public let pluginMethods: [CAPPluginMethod] = [
         CAPPluginMethod(name: "openCanvas", returnType: CAPPluginReturnPromise),
         CAPPluginMethod(name: "clearCanvas", returnType: CAPPluginReturnPromise),
-        CAPPluginMethod(name: "hasContent", returnType: CAPPluginReturnPromise)
+        CAPPluginMethod(name: "hasContent", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "getDrawing", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "setDrawing", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "listDrafts", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "restoreDraft", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "setActiveDraft", returnType: CAPPluginReturnPromise)
     ]
     
     private let implementation = Canvas()
@@ -72,6 +77,8 @@ public class CanvasPlugin: CAPPlugin, CAPBridgedPlugin {
     private var currentCall: CAPPluginCall?
     private var isCanvasOpen: Bool = false
     private var isPencilInitiated: Bool = false
+    // Export settings of the last button-initiated open, reused for pencil-initiated opens
+    private var lastExportOptions = ExportOptions()
     
     // MARK: - Plugin Lifecycle
     
@@ -103,12 +110,20 @@ public class CanvasPlugin: CAPPlugin, CAPBridgedPlugin {
             let presentationStyle = call.getString("presentationStyle") ?? "sheet"
             let showGrabber = call.getBool("showGrabber") ?? true
             let allowMediumDetent = call.getBool("allowMediumDetent") ?? false
+            self.lastExportOptions = ExportOptions(call: call)
+            
+            if let draftId = call.getString("draftId") {
+                self.implementation.activateDraft(withId: draftId)
+            } else if call.getBool("newDraft") ?? false {
+                self.implementation.parkActiveDraft()
+            }
             
             self.presentCanvas(
                 backgroundColor: backgroundColor,
                 presentationStyle: presentationStyle,
                 showGrabber: showGrabber,
                 allowMediumDetent: allowMediumDetent,
+                exportOptions: self.lastExportOptions,
                 onError: { call.reject("Unable to access view controller") }
             )
         }
@@ -119,12 +134,14 @@ public class CanvasPlugin: CAPPlugin, CAPBridgedPlugin {
         presentationStyle: String,
         showGrabber: Bool,
         allowMediumDetent: Bool,
+        exportOptions: ExportOptions,
         onError: @escaping () -> Void
     ) {
         // Create and present canvas view controller
         let canvasVC = CanvasViewController()
         canvasVC.delegate = self
         canvasVC.backgroundColor = backgroundColor
+        canvasVC.exportOptions = exportOptions
         
         // Configure presentation style
         switch presentationStyle {
@@ -165,16 +182,86 @@ public class CanvasPlugin: CAPPlugin, CAPBridgedPlugin {
         }
     }
     
+    // Draft storage is only touched from the main queue, like the canvas itself
+    
     @objc func clearCanvas(_ call: CAPPluginCall) {
-        implementation.clearCanvas()
-        call.resolve()
+        DispatchQueue.main.async {
+            self.implementation.clearCanvas(draftId: call.getString("draftId"))
+            call.resolve()
+        }
     }
     
     @objc func hasContent(_ call: CAPPluginCall) {
-        let hasContent = implementation.hasContent()
-        call.resolve([
-            "hasContent": hasContent
-        ])
+        DispatchQueue.main.async {
+            call.resolve([
+                "hasContent": self.implementation.hasContent(draftId: call.getString("draftId"))
+            ])
+        }
+    }
+    
+    @objc func getDrawing(_ call: CAPPluginCall) {
+        DispatchQueue.main.async {
+            call.resolve([
+                "drawing": (self.implementation.getPreservedDrawingObject(draftId: call.getString("draftId")) as JSValue?) ?? NSNull()
+            ])
+        }
+    }
+    
+    @objc func setDrawing(_ call: CAPPluginCall) {
+        DispatchQueue.main.async {
+            guard !self.isCanvasOpen else {
+                call.reject("Cannot replace the drawing while the canvas is open")
+                return
+            }
+            
+            guard self.implementation.setPreservedDrawingObject(
+                call.getObject("drawing"),
+                draftId: call.getString("draftId")
+            ) else {
+                call.reject("Invalid drawing")
+                return
+            }
+            call.resolve()
+        }
+    }
+    
+    @objc func listDrafts(_ call: CAPPluginCall) {
+        DispatchQueue.main.async {
+            call.resolve(self.implementation.listDrafts())
+        }
+    }
+    
+    @objc func restoreDraft(_ call: CAPPluginCall) {
+        DispatchQueue.main.async {
+            guard let id = call.getString("id") else {
+                call.reject("Must provide a draft id")
+                return
+            }
+            guard !self.isCanvasOpen else {
+                call.reject("Cannot restore a draft while the canvas is open")
+                return
+            }
+            guard self.implementation.restoreDraft(withId: id) else {
+                call.reject("Draft not found: \(id)")
+                return
+            }
+            call.resolve()
+        }
+    }
+    
+    @objc func setActiveDraft(_ call: CAPPluginCall) {
+        DispatchQueue.main.async {
+            guard let draftId = call.getString("draftId") else {
+                call.reject("Must provide a draft id")
+                return
+            }
+            guard !self.isCanvasOpen else {
+                call.reject("Cannot change the active draft while the canvas is open")
+                return
+            }
+            self.implementation.activateDraft(withId: draftId)
+            call.resolve()
+        }
     }
     
     // MARK: - Internal Methods for Pencil Interaction
@@ -190,6 +277,7 @@ public class CanvasPlugin: CAPPlugin, CAPBridgedPlugin {
                 presentationStyle: "sheet",
                 showGrabber: true,
                 allowMediumDetent: false,
+                exportOptions: self.lastExportOptions,
                 onError: { /* Silently fail for pencil tap */ }
             )
         }
@@ -222,7 +310,7 @@ extension CanvasPlugin: PencilInteractionManagerDelegate {
 
 // MARK: - CanvasViewControllerDelegate
 extension CanvasPlugin: CanvasViewControllerDelegate {
-    func canvasDidSubmit(imageData: String) {
+    func canvasDidSubmit(imageData: String, mediaType: String, drawing: JSObject) {
         isCanvasOpen = false
         
         if isPencilInitiated {
@@ -230,6 +318,8 @@ extension CanvasPlugin: CanvasViewControllerDelegate {
             notifyListeners("canvasSubmitted", data: [
                 "action": "submitted",
                 "imageData": imageData,
+                "mediaType": mediaType,
+                "drawing": drawing,
                 "hasContent": false
             ])
             isPencilInitiated = false
@@ -238,6 +328,8 @@ extension CanvasPlugin: CanvasViewControllerDelegate {
             currentCall?.resolve([
                 "action": "submitted",
                 "imageData": imageData,
+                "mediaType": mediaType,
+                "drawing": drawing,
                 "hasContent": false
             ])
             currentCall = nil
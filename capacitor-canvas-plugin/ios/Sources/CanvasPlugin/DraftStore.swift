@@ -0,0 +1,121 @@
+import Foundation
+import UIKit
+import PencilKit
+
+/**
+ * File-backed storage for canvas drafts in Application Support, so minimized
+ * drawings survive the app being killed. Mirrors src/draft-store.ts.
+ * Not thread-safe: only use it from the main queue.
+ */
+final class DraftStore {
+    struct Draft: Codable {
+        let id: String
+        let createdAt: Double
+        var updatedAt: Double
+        var width: Double
+        var height: Double
+        var strokeCount: Int
+    }
+
+    private struct Index: Codable {
+        var activeDraftId: String?
+        var drafts: [Draft]
+    }
+
+    static let shared = DraftStore()
+
+    private let directory: URL
+    private var index: Index
+
+    private init() {
+        let baseDirectory = FileManager.default.urls(for: .applicationSupportDirectory, in: .userDomainMask)[0]
+        directory = baseDirectory.appendingPathComponent("CanvasDrafts", isDirectory: true)
+        try? FileManager.default.createDirectory(at: directory, withIntermediateDirectories: true)
+
+        if let data = try? Data(contentsOf: directory.appendingPathComponent("index.json")),
+           let index = try? JSONDecoder().decode(Index.self, from: data) {
+            self.index = index
+        } else {
+            self.index = Index(activeDraftId: nil, drafts: [])
+        }
+    }
+
+    // MARK: - Active Draft
+
+    var activeDraftId: String? {
+        get { index.activeDraftId }
+        set {
+            index.activeDraftId = newValue
+            saveIndex()
+        }
+    }
+
+    // MARK: - Drafts
+
+    /// All drafts, most recently updated first
+    var drafts: [Draft] {
+        return index.drafts.sorted { $0.updatedAt > $1.updatedAt }
+    }
+
+    func draft(withId id: String) -> Draft? {
+        return index.drafts.first { $0.id == id }
+    }
+
+    func drawing(forDraftId id: String) -> PKDrawing? {
+        guard draft(withId: id) != nil,
+              let data = try? Data(contentsOf: drawingURL(for: id)) else {
+            return nil
+        }
+        return try? PKDrawing(data: data)
+    }
+
+    func save(_ drawing: PKDrawing, canvasSize: CGSize, draftId id: String) {
+        do {
+            try drawing.dataRepresentation().write(to: drawingURL(for: id), options: .atomic)
+        } catch {
+            print("[Canvas Drafts] Failed to save draft \(id): \(error)")
+            return
+        }
+
+        let now = Date().timeIntervalSince1970 * 1000
+        let existing = draft(withId: id)
+        let updated = Draft(
+            id: id,
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now,
+            width: Double(canvasSize.width),
+            height: Double(canvasSize.height),
+            strokeCount: drawing.strokes.count
+        )
+
+        index.drafts.removeAll { $0.id == id }
+        index.drafts.append(updated)
+        saveIndex()
+    }
+
+    func deleteDraft(withId id: String) {
+        try? FileManager.default.removeItem(at: drawingURL(for: id))
+        index.drafts.removeAll { $0.id == id }
+        if index.activeDraftId == id {
+            index.activeDraftId = nil
+        }
+        saveIndex()
+    }
+
+    // MARK: - Files
+
+    private func drawingURL(for id: String) -> URL {
+        // Ids are generated UUIDs or caller-provided keys; keep them filename-safe
+        let safeId = id.addingPercentEncoding(withAllowedCharacters: .alphanumerics) ?? id
+        return directory.appendingPathComponent("\(safeId).drawing")
+    }
+
+    private func saveIndex() {
+        do {
+            let data = try JSONEncoder().encode(index)
+            try data.write(to: directory.appendingPathComponent("index.json"), options: .atomic)
+        } catch {
+            print("[Canvas Drafts] Failed to save draft index: \(error)")
+        }
+    }
+}
@@ -0,0 +1,177 @@
+import Foundation
+import UIKit
+import PencilKit
+import Capacitor
+
+/**
+ * Converts between PKDrawing and the JSON stroke format (`Drawing` in definitions.ts)
+ */
+enum DrawingSerializer {
+    static let formatVersion = 1
+
+    /// PencilKit reports an average pencil press as a force of 1.0; the JSON
+    /// format normalizes that to a pressure of 0.5, the same value the web
+    /// canvas records for input without pressure.
+    private static let forceForFullPressure: CGFloat = 2.0
+
+    // MARK: - PKDrawing -> JSON
+
+    static func toJSObject(_ drawing: PKDrawing, canvasSize: CGSize) -> JSObject {
+        let strokes: [JSValue] = drawing.strokes.map { strokeToJSObject($0) }
+        return [
+            "version": formatVersion,
+            "width": Double(canvasSize.width),
+            "height": Double(canvasSize.height),
+            "strokes": strokes
+        ]
+    }
+
+    private static func strokeToJSObject(_ stroke: PKStroke) -> JSObject {
+        var points: [JSValue] = []
+        var totalWidth: CGFloat = 0
+
+        for point in stroke.path {
+            let location = point.location.applying(stroke.transform)
+            totalWidth += point.size.width
+            points.append([
+                "x": Double(location.x),
+                "y": Double(location.y),
+                "pressure": Double(min(1, max(0, point.force / forceForFullPressure))),
+                "timeOffset": point.timeOffset * 1000
+            ] as JSObject)
+        }
+
+        let width = stroke.path.isEmpty ? 0 : totalWidth / CGFloat(stroke.path.count)
+
+        return [
+            "tool": toolName(for: stroke.ink.inkType),
+            "color": hexString(for: stroke.ink.color),
+            "width": Double(width),
+            "timestamp": stroke.path.creationDate.timeIntervalSince1970 * 1000,
+            "points": points
+        ]
+    }
+
+    // MARK: - JSON -> PKDrawing
+
+    static func drawing(from object: JSObject) -> (drawing: PKDrawing, canvasSize: CGSize)? {
+        guard let version = object["version"] as? Int, version == formatVersion,
+              let strokeObjects = object["strokes"] as? JSArray else {
+            return nil
+        }
+
+        var strokes: [PKStroke] = []
+        for case let strokeObject as JSObject in strokeObjects {
+            guard let stroke = stroke(from: strokeObject) else {
+                return nil
+            }
+            strokes.append(stroke)
+        }
+
+        let canvasSize = CGSize(
+            width: (object["width"] as? Double) ?? 0,
+            height: (object["height"] as? Double) ?? 0
+        )
+        return (PKDrawing(strokes: strokes), canvasSize)
+    }
+
+    private static func stroke(from object: JSObject) -> PKStroke? {
+        guard let pointObjects = object["points"] as? JSArray,
+              let width = object["width"] as? Double else {
+            return nil
+        }
+
+        var points: [PKStrokePoint] = []
+        for case let pointObject as JSObject in pointObjects {
+            guard let x = pointObject["x"] as? Double,
+                  let y = pointObject["y"] as? Double else {
+                return nil
+            }
+            let pressure = (pointObject["pressure"] as? Double) ?? 0.5
+            let timeOffset = (pointObject["timeOffset"] as? Double) ?? 0
+
+            points.append(PKStrokePoint(
+                location: CGPoint(x: x, y: y),
+                timeOffset: timeOffset / 1000,
+                size: CGSize(width: width, height: width),
+                opacity: 1,
+                force: CGFloat(pressure) * forceForFullPressure,
+                azimuth: 0,
+                altitude: .pi / 2
+            ))
+        }
+
+        let timestamp = (object["timestamp"] as? Double) ?? Date().timeIntervalSince1970 * 1000
+        let path = PKStrokePath(controlPoints: points, creationDate: Date(timeIntervalSince1970: timestamp / 1000))
+        let ink = PKInk(
+            inkType(for: object["tool"] as? String),
+            color: color(fromHex: object["color"] as? String) ?? .black
+        )
+        return PKStroke(ink: ink, path: path)
+    }
+
+    // MARK: - Tools
+
+    private static func toolName(for inkType: PKInk.InkType) -> String {
+        if #available(iOS 17.0, *) {
+            switch inkType {
+            case .monoline: return "monoline"
+            case .fountainPen: return "fountainPen"
+            case .watercolor: return "watercolor"
+            case .crayon: return "crayon"
+            default: break
+            }
+        }
+        switch inkType {
+        case .pencil: return "pencil"
+        case .marker: return "marker"
+        default: return "pen"
+        }
+    }
+
+    private static func inkType(for tool: String?) -> PKInk.InkType {
+        if #available(iOS 17.0, *) {
+            switch tool {
+            case "monoline": return .monoline
+            case "fountainPen": return .fountainPen
+            case "watercolor": return .watercolor
+            case "crayon": return .crayon
+            default: break
+            }
+        }
+        switch tool {
+        case "pencil": return .pencil
+        case "marker": return .marker
+        default: return .pen
+        }
+    }
+
+    // MARK: - Colors
+
+    static func hexString(for color: UIColor) -> String {
+        var red: CGFloat = 0, green: CGFloat = 0, blue: CGFloat = 0, alpha: CGFloat = 0
+        color.getRed(&red, green: &green, blue: &blue, alpha: &alpha)
+
+        let components = [red, green, blue, alpha].map { Int((min(1, max(0, $0)) * 255).rounded()) }
+        let hex = components.map { String(format: "%02x", $0) }.joined()
+        return components[3] == 255 ? "#" + hex.prefix(6) : "#" + hex
+    }
+
+    private static func color(fromHex hex: String?) -> UIColor? {
+        guard var digits = hex?.trimmingCharacters(in: .whitespaces), digits.hasPrefix("#") else {
+            return nil
+        }
+        digits.removeFirst()
+        guard digits.count == 6 || digits.count == 8, let value = UInt64(digits, radix: 16) else {
+            return nil
+        }
+
+        let rgba = digits.count == 6 ? (value << 8) | 0xff : value
+        return UIColor(
+            red: CGFloat((rgba >> 24) & 0xff) / 255,
+            green: CGFloat((rgba >> 16) & 0xff) / 255,
+            blue: CGFloat((rgba >> 8) & 0xff) / 255,
+            alpha: CGFloat(rgba & 0xff) / 255
+        )
+    }
+}
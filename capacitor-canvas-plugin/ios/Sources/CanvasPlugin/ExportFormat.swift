@@ -0,0 +1,134 @@
+import Foundation
+import UIKit
+import PencilKit
+import Capacitor
+
+// MARK: - ExportStep
+
+/// One encoding attempt while stepping down to the byte budget
+struct ExportStep {
+    let dimensionScale: CGFloat
+    let quality: CGFloat
+    let precision: Int
+}
+
+// MARK: - ExportOptions
+
+/// Export settings from `OpenCanvasOptions`; keep in sync with src/export-format.ts
+struct ExportOptions {
+    var format: String = "png"
+    var quality: CGFloat = 0.92
+    var maxDimension: CGFloat = 3200.0
+    var maxBytes: Int?
+
+    private static let minLossyQuality: CGFloat = 0.5
+    private static let qualitySteps: [CGFloat] = [0.8, 0.7, 0.6, minLossyQuality]
+    private static let dimensionSteps: [CGFloat] = [0.75, 0.5, 0.35, 0.25]
+    private static let svgPrecisionSteps = [2, 1, 0]
+
+    init() {}
+
+    init(call: CAPPluginCall) {
+        if let format = call.getString("exportFormat"), ["png", "jpeg", "webp", "svg"].contains(format) {
+            self.format = format
+        }
+        if let quality = call.getDouble("quality") {
+            self.quality = CGFloat(min(1, max(0, quality)))
+        }
+        if let maxDimension = call.getDouble("maxDimension"), maxDimension > 0 {
+            self.maxDimension = CGFloat(maxDimension)
+        }
+        if let maxBytes = call.getInt("maxBytes"), maxBytes > 0 {
+            self.maxBytes = maxBytes
+        }
+    }
+
+    /// Ordered encoding attempts, from the requested settings to the smallest
+    var steps: [ExportStep] {
+        let first = ExportStep(dimensionScale: 1, quality: quality, precision: ExportOptions.svgPrecisionSteps[0])
+        guard maxBytes != nil else {
+            return [first]
+        }
+
+        switch format {
+        case "svg":
+            return ExportOptions.svgPrecisionSteps.map {
+                ExportStep(dimensionScale: 1, quality: quality, precision: $0)
+            }
+        case "jpeg":
+            let qualities = ExportOptions.qualitySteps.filter { $0 < quality }
+            let floor = min(quality, ExportOptions.minLossyQuality)
+            return [first]
+                + qualities.map { ExportStep(dimensionScale: 1, quality: $0, precision: first.precision) }
+                + ExportOptions.dimensionSteps.map { ExportStep(dimensionScale: $0, quality: floor, precision: first.precision) }
+        default:
+            // PNG, and WebP which UIKit cannot encode and falls back to PNG
+            return [first] + ExportOptions.dimensionSteps.map {
+                ExportStep(dimensionScale: $0, quality: quality, precision: first.precision)
+            }
+        }
+    }
+}
+
+// MARK: - Encoding
+
+enum DrawingEncoder {
+    /// Encodes the drawing inside `region` at `scale` on a white background
+    /// - Returns: the encoded bytes and their media type, or nil if encoding failed
+    static func encode(
+        _ drawing: PKDrawing,
+        region: CGRect,
+        scale: CGFloat,
+        step: ExportStep,
+        options: ExportOptions
+    ) -> (data: Data, mediaType: String)? {
+        if options.format == "svg" {
+            let svg = svgDocument(for: drawing, region: region, scale: scale, precision: step.precision)
+            return svg.data(using: .utf8).map { ($0, "image/svg+xml") }
+        }
+
+        let drawingImage = drawing.image(from: region, scale: scale)
+        let size = CGSize(width: region.width * scale, height: region.height * scale)
+
+        // Maintain existing white background rendering
+        let renderer = UIGraphicsImageRenderer(size: size)
+        let image = renderer.image { context in
+            UIColor.white.setFill()
+            context.fill(CGRect(origin: .zero, size: size))
+            drawingImage.draw(at: .zero)
+        }
+
+        if options.format == "jpeg" {
+            return image.jpegData(compressionQuality: step.quality).map { ($0, "image/jpeg") }
+        }
+        return image.pngData().map { ($0, "image/png") }
+    }
+
+    /// Mirrors renderStrokesToSvg() in src/export-format.ts
+    private static func svgDocument(for drawing: PKDrawing, region: CGRect, scale: CGFloat, precision: Int) -> String {
+        let format = { (value: CGFloat) -> String in
+            let number = Double(String(format: "%.\(precision)f", Double(value))) ?? 0
+            return number == number.rounded() ? String(Int(number)) : String(number)
+        }
+        let width = format(region.width * scale)
+        let height = format(region.height * scale)
+
+        var paths: [String] = []
+        for stroke in drawing.strokes where !stroke.path.isEmpty {
+            let points = stroke.path.map { point -> String in
+                let location = point.location.applying(stroke.transform)
+                return "\(format((location.x - region.minX) * scale)) \(format((location.y - region.minY) * scale))"
+            }
+            let averageWidth = stroke.path.reduce(0) { $0 + $1.size.width } / CGFloat(stroke.path.count)
+            let data = points.count == 1 ? "M\(points[0])L\(points[0])" : "M" + points.joined(separator: "L")
+            let color = DrawingSerializer.hexString(for: stroke.ink.color)
+            paths.append("<path d=\"\(data)\" stroke=\"\(color)\" stroke-width=\"\(format(averageWidth * scale))\"/>")
+        }
+
+        return "<svg xmlns=\"http://www.w3.org/2000/svg\" width=\"\(width)\" height=\"\(height)\" viewBox=\"0 0 \(width) \(height)\">"
+            + "<rect width=\"100%\" height=\"100%\" fill=\"#ffffff\"/>"
+            + "<g fill=\"none\" stroke-linecap=\"round\" stroke-linejoin=\"round\">"
+            + paths.joined()
+            + "</g></svg>"
+    }
+}
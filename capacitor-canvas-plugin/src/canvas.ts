@@ -0,0 +1,527 @@
+import type { Drawing, DrawingPoint, DrawingStroke, ListDraftsResult } from './definitions';
+import { DraftStore, createDraftId } from './draft-store';
+import type { ExportSettings, ExportStep } from './export-format';
+import {
+  encodeWithinBudget,
+  mediaTypeForFormat,
+  mediaTypeOfDataUrl,
+  renderStrokesToSvg,
+  svgToDataUrl,
+} from './export-format';
+import type { ScalingResult } from './ink-export';
+import { calculateExportRegion, exportPixelSize } from './ink-export';
+
+/**
+ * Web counterpart of the native `Canvas` class: keeps the active draft (the
+ * drawing a minimized canvas continues with) and any parked drafts in
+ * IndexedDB, so they survive page reloads.
+ */
+export class Canvas {
+  private static readonly draftStore = new DraftStore();
+
+  /**
+   * Deletes the given draft, or the active one when no id is given
+   */
+  async clearCanvas(draftId?: string): Promise<void> {
+    const activeDraftId = await Canvas.draftStore.getActiveDraftId();
+    const targetId = draftId ?? activeDraftId;
+    if (targetId === null) {
+      return;
+    }
+
+    await Canvas.draftStore.deleteDraft(targetId);
+    if (targetId === activeDraftId) {
+      await Canvas.draftStore.setActiveDraftId(null);
+    }
+  }
+
+  async hasContent(draftId?: string): Promise<boolean> {
+    const drawing = await this.getPreservedDrawing(draftId);
+    return drawing !== null && drawing.strokes.length > 0;
+  }
+
+  async getPreservedDrawing(draftId?: string): Promise<Drawing | null> {
+    const targetId = draftId ?? (await Canvas.draftStore.getActiveDraftId());
+    if (targetId === null) {
+      return null;
+    }
+    const record = await Canvas.draftStore.getDraft(targetId);
+    return record?.drawing ?? null;
+  }
+
+  /**
+   * Saves the drawing to the given draft (or the active one, creating it if
+   * needed) and makes that draft active
+   */
+  async setPreservedDrawing(drawing: Drawing | null, draftId?: string): Promise<void> {
+    // Nothing worth keeping: drop the draft instead of parking an empty canvas
+    if (drawing === null || drawing.strokes.length === 0) {
+      await this.clearCanvas(draftId);
+      return;
+    }
+
+    const id = draftId ?? (await Canvas.draftStore.getActiveDraftId()) ?? createDraftId();
+    const existing = await Canvas.draftStore.getDraft(id);
+    const now = Date.now();
+    await Canvas.draftStore.putDraft({
+      id,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      drawing,
+    });
+    await Canvas.draftStore.setActiveDraftId(id);
+  }
+
+  /**
+   * Makes the given draft id active even if nothing has been saved under it yet
+   */
+  async activateDraft(draftId: string): Promise<void> {
+    await Canvas.draftStore.setActiveDraftId(draftId);
+  }
+
+  /**
+   * Keeps the active draft but stops continuing it, so the next canvas starts empty
+   */
+  async parkActiveDraft(): Promise<void> {
+    await Canvas.draftStore.setActiveDraftId(null);
+  }
+
+  async listDrafts(): Promise<ListDraftsResult> {
+    const [drafts, activeDraftId] = await Promise.all([
+      Canvas.draftStore.listDrafts(),
+      Canvas.draftStore.getActiveDraftId(),
+    ]);
+    return { drafts, activeDraftId };
+  }
+
+  /**
+   * Makes a parked draft the active one; the previously active draft stays parked
+   * @returns false if no draft with that id exists
+   */
+  async restoreDraft(id: string): Promise<boolean> {
+    const record = await Canvas.draftStore.getDraft(id);
+    if (!record) {
+      return false;
+    }
+    await Canvas.draftStore.setActiveDraftId(id);
+    return true;
+  }
+}
+
+// MARK: - CanvasOverlay
+
+export interface CanvasOverlayDelegate {
+  canvasDidSubmit(imageData: string, mediaType: string, drawing: Drawing): void;
+  canvasDidMinimize(drawing: Drawing): void;
+  canvasDidCancel(): void;
+}
+
+export interface CanvasOverlayOptions {
+  backgroundColor: string;
+  presentationStyle: 'sheet' | 'fullScreen';
+  showGrabber: boolean;
+  exportSettings: ExportSettings;
+  /** Drawing to continue editing, if any */
+  initialDrawing: Drawing | null;
+}
+
+const TOOLBAR_HEIGHT = 60;
+const STROKE_WIDTH = 3;
+const STROKE_COLOR = '#000000';
+const Z_INDEX = '2147483000';
+
+/**
+ * DOM overlay that mirrors the native `CanvasViewController`: a toolbar with
+ * Minimize/Cancel/Submit above a pointer-events drawing surface.
+ */
+export class CanvasOverlay {
+  private readonly root: HTMLDivElement;
+  private readonly surface: HTMLCanvasElement;
+  private readonly context: CanvasRenderingContext2D;
+  private readonly resizeObserver: ResizeObserver;
+
+  private strokes: DrawingStroke[] = [];
+  private activeStroke: DrawingStroke | null = null;
+  private activePointerId: number | null = null;
+  private activeStrokeStart = 0;
+  private isDismissed = false;
+
+  constructor(
+    private readonly options: CanvasOverlayOptions,
+    private readonly delegate: CanvasOverlayDelegate,
+  ) {
+    this.surface = this.createSurface();
+    this.root = this.createRoot();
+    const context = this.surface.getContext('2d');
+    if (!context) {
+      throw new Error('2D canvas context is not available');
+    }
+    this.context = context;
+    this.resizeObserver = new ResizeObserver(() => this.resizeSurface());
+  }
+
+  present(): void {
+    this.restoreDrawing();
+    document.body.appendChild(this.root);
+    document.addEventListener('keydown', this.handleKeyDown);
+    this.resizeObserver.observe(this.surface);
+    this.resizeSurface();
+  }
+
+  // MARK: - Setup
+
+  private createRoot(): HTMLDivElement {
+    const isSheet = this.options.presentationStyle === 'sheet';
+
+    const root = document.createElement('div');
+    root.setAttribute('role', 'dialog');
+    root.setAttribute('aria-modal', 'true');
+    root.setAttribute('aria-label', 'Drawing canvas');
+    Object.assign(root.style, {
+      position: 'fixed',
+      inset: '0',
+      zIndex: Z_INDEX,
+      display: 'flex',
+      alignItems: 'flex-end',
+      justifyContent: 'center',
+      background: isSheet ? 'rgba(0, 0, 0, 0.4)' : 'transparent',
+    });
+
+    const panel = document.createElement('div');
+    Object.assign(panel.style, {
+      position: 'relative',
+      display: 'flex',
+      flexDirection: 'column',
+      width: isSheet ? 'min(100%, 1024px)' : '100%',
+      height: isSheet ? 'calc(100% - max(2.5rem, env(safe-area-inset-top)))' : '100%',
+      background: '#ffffff',
+      borderRadius: isSheet ? '12px 12px 0 0' : '0',
+      overflow: 'hidden',
+      boxShadow: isSheet ? '0 -4px 24px rgba(0, 0, 0, 0.2)' : 'none',
+    });
+
+    if (isSheet && this.options.showGrabber) {
+      const grabber = document.createElement('div');
+      Object.assign(grabber.style, {
+        position: 'absolute',
+        top: '6px',
+        left: '50%',
+        width: '36px',
+        height: '5px',
+        marginLeft: '-18px',
+        borderRadius: '3px',
+        background: 'rgba(60, 60, 67, 0.3)',
+      });
+      panel.appendChild(grabber);
+    }
+
+    panel.appendChild(this.createToolbar());
+    panel.appendChild(this.surface);
+    root.appendChild(panel);
+    return root;
+  }
+
+  private createToolbar(): HTMLDivElement {
+    const toolbar = document.createElement('div');
+    Object.assign(toolbar.style, {
+      flex: `0 0 ${TOOLBAR_HEIGHT}px`,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: '0 20px',
+      background: '#ffffff',
+      borderBottom: '1px solid rgba(60, 60, 67, 0.15)',
+    });
+
+    const leading = document.createElement('div');
+    leading.style.display = 'flex';
+    leading.style.gap = '16px';
+    leading.appendChild(this.createButton('Minimize', () => this.minimizeCanvas()));
+    leading.appendChild(this.createButton('Cancel', () => this.cancelCanvas()));
+
+    toolbar.appendChild(leading);
+    toolbar.appendChild(this.createButton('Submit', () => this.submitCanvas()));
+    return toolbar;
+  }
+
+  private createButton(title: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = title;
+    Object.assign(button.style, {
+      border: 'none',
+      background: 'none',
+      padding: '8px 4px',
+      color: '#007aff',
+      font: '500 18px -apple-system, system-ui, sans-serif',
+      cursor: 'pointer',
+    });
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  private createSurface(): HTMLCanvasElement {
+    const surface = document.createElement('canvas');
+    Object.assign(surface.style, {
+      flex: '1 1 auto',
+      width: '100%',
+      minHeight: '0',
+      display: 'block',
+      background: this.options.backgroundColor,
+      touchAction: 'none',
+      cursor: 'crosshair',
+    });
+    surface.addEventListener('pointerdown', this.handlePointerDown);
+    surface.addEventListener('pointermove', this.handlePointerMove);
+    surface.addEventListener('pointerup', this.handlePointerUp);
+    surface.addEventListener('pointercancel', this.handlePointerUp);
+    return surface;
+  }
+
+  private restoreDrawing(): void {
+    const { initialDrawing } = this.options;
+    if (initialDrawing) {
+      this.strokes = initialDrawing.strokes.map((stroke) => ({ ...stroke, points: [...stroke.points] }));
+    }
+  }
+
+  // MARK: - Rendering
+
+  private resizeSurface(): void {
+    const ratio = window.devicePixelRatio || 1;
+    const { width, height } = this.surface.getBoundingClientRect();
+    this.surface.width = Math.max(1, Math.round(width * ratio));
+    this.surface.height = Math.max(1, Math.round(height * ratio));
+    this.context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    this.redraw();
+  }
+
+  private redraw(): void {
+    const { width, height } = this.surface.getBoundingClientRect();
+    this.context.clearRect(0, 0, width, height);
+    renderStrokes(this.context, this.strokes);
+  }
+
+  // MARK: - Pointer Handling
+
+  private readonly handlePointerDown = (event: PointerEvent) => {
+    if (this.activePointerId !== null || (event.pointerType === 'mouse' && event.button !== 0)) {
+      return;
+    }
+    event.preventDefault();
+    this.surface.setPointerCapture(event.pointerId);
+    this.activePointerId = event.pointerId;
+    this.activeStroke = {
+      tool: 'pen',
+      color: STROKE_COLOR,
+      width: STROKE_WIDTH,
+      timestamp: Date.now(),
+      points: [],
+    };
+    this.activeStrokeStart = event.timeStamp;
+    this.activeStroke.points.push(this.pointFromEvent(event));
+    this.strokes.push(this.activeStroke);
+    this.redrawActiveTail();
+  };
+
+  private readonly handlePointerMove = (event: PointerEvent) => {
+    if (event.pointerId !== this.activePointerId || !this.activeStroke) {
+      return;
+    }
+    event.preventDefault();
+    const samples = typeof event.getCoalescedEvents === 'function' ? event.getCoalescedEvents() : [];
+    for (const sample of samples.length > 0 ? samples : [event]) {
+      this.activeStroke.points.push(this.pointFromEvent(sample));
+      this.redrawActiveTail();
+    }
+  };
+
+  private readonly handlePointerUp = (event: PointerEvent) => {
+    if (event.pointerId !== this.activePointerId) {
+      return;
+    }
+    if (this.surface.hasPointerCapture(event.pointerId)) {
+      this.surface.releasePointerCapture(event.pointerId);
+    }
+    this.activePointerId = null;
+    this.activeStroke = null;
+  };
+
+  private readonly handleKeyDown = (event: KeyboardEvent) => {
+    // Escape behaves like swiping the native sheet down: keep the drawing
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      this.minimizeCanvas();
+    }
+  };
+
+  private pointFromEvent(event: PointerEvent): DrawingPoint {
+    const rect = this.surface.getBoundingClientRect();
+    // Mice and touch report a constant 0.5 while pressed; only pens are pressure sensitive
+    const pressure = event.pointerType === 'pen' ? event.pressure : 0.5;
+    return {
+      x: event.clientX - rect.left,
+      y: event.clientY - rect.top,
+      pressure,
+      timeOffset: Math.max(0, event.timeStamp - this.activeStrokeStart),
+    };
+  }
+
+  private redrawActiveTail(): void {
+    if (!this.activeStroke) {
+      return;
+    }
+    const points = this.activeStroke.points;
+    renderSegment(
+      this.context,
+      this.activeStroke,
+      points[points.length - 2] ?? points[points.length - 1],
+      points[points.length - 1],
+    );
+  }
+
+  // MARK: - Actions
+
+  private submitCanvas(): void {
+    // Empty canvas cannot be submitted
+    if (this.strokes.length === 0) {
+      return;
+    }
+
+    const { width, height } = this.surface.getBoundingClientRect();
+    const canvasBounds = { x: 0, y: 0, width, height };
+    const settings = this.options.exportSettings;
+
+    // Crop to the ink with padding and cap the size, exactly like the native export
+    const { scaling } = calculateExportRegion(this.strokes, canvasBounds, {
+      maxDimension: settings.maxDimension,
+    });
+
+    // Step down until the encoded image fits the byte budget, keeping the smallest attempt
+    const imageData = encodeWithinBudget(settings, (step) =>
+      this.encodeDrawing(scaledBy(scaling, step.dimensionScale), step),
+    );
+
+    if (imageData === null) {
+      this.dismiss(() => this.delegate.canvasDidCancel());
+      return;
+    }
+
+    const exportedImage = imageData;
+    const drawing = this.currentDrawing();
+
+    this.dismiss(() => this.delegate.canvasDidSubmit(exportedImage, mediaTypeOfDataUrl(exportedImage), drawing));
+  }
+
+  /**
+   * Encodes the strokes of the export region as a data URL, or returns null
+   * when no 2D context is available.
+   */
+  private encodeDrawing(scaling: ScalingResult, step: ExportStep): string | null {
+    const { format } = this.options.exportSettings;
+
+    if (format === 'svg') {
+      const svg = renderStrokesToSvg(this.strokes, scaling.original, scaling.scale, step.precision, lineWidthFor);
+      return svgToDataUrl(svg);
+    }
+
+    const pixelSize = exportPixelSize(scaling);
+    const exportSurface = document.createElement('canvas');
+    exportSurface.width = pixelSize.width;
+    exportSurface.height = pixelSize.height;
+    const context = exportSurface.getContext('2d');
+    if (!context) {
+      return null;
+    }
+
+    // Maintain the native white background rendering
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, exportSurface.width, exportSurface.height);
+    context.scale(scaling.scale, scaling.scale);
+    context.translate(-scaling.original.x, -scaling.original.y);
+    renderStrokes(context, this.strokes);
+
+    // Browsers that cannot encode the format return a PNG instead
+    return exportSurface.toDataURL(mediaTypeForFormat(format), step.quality);
+  }
+
+  private minimizeCanvas(): void {
+    // The plugin preserves the returned drawing
+    const drawing = this.currentDrawing();
+    this.dismiss(() => this.delegate.canvasDidMinimize(drawing));
+  }
+
+  private cancelCanvas(): void {
+    // Cancelling discards changes made since the canvas was opened
+    this.dismiss(() => this.delegate.canvasDidCancel());
+  }
+
+  private currentDrawing(): Drawing {
+    const { width, height } = this.surface.getBoundingClientRect();
+    return {
+      version: 1,
+      width,
+      height,
+      strokes: this.strokes,
+    };
+  }
+
+  private dismiss(completion: () => void): void {
+    if (this.isDismissed) {
+      return;
+    }
+    this.isDismissed = true;
+    this.resizeObserver.disconnect();
+    document.removeEventListener('keydown', this.handleKeyDown);
+    this.root.remove();
+    completion();
+  }
+}
+
+// MARK: - Stroke Rendering
+
+function lineWidthFor(stroke: DrawingStroke, pressure: number): number {
+  return stroke.width * (0.4 + pressure * 1.2);
+}
+
+function scaledBy(scaling: ScalingResult, factor: number): ScalingResult {
+  return {
+    original: scaling.original,
+    scale: scaling.scale * factor,
+    size: { width: scaling.size.width * factor, height: scaling.size.height * factor },
+  };
+}
+
+function renderSegment(
+  context: CanvasRenderingContext2D,
+  stroke: DrawingStroke,
+  from: DrawingPoint,
+  to: DrawingPoint,
+): void {
+  context.strokeStyle = stroke.color;
+  context.fillStyle = stroke.color;
+  context.lineCap = 'round';
+  context.lineJoin = 'round';
+
+  // A single tap draws a dot rather than a zero-length line
+  if (from === to) {
+    context.beginPath();
+    context.arc(to.x, to.y, lineWidthFor(stroke, to.pressure) / 2, 0, Math.PI * 2);
+    context.fill();
+    return;
+  }
+
+  context.lineWidth = lineWidthFor(stroke, to.pressure);
+  context.beginPath();
+  context.moveTo(from.x, from.y);
+  context.lineTo(to.x, to.y);
+  context.stroke();
+}
+
+function renderStrokes(context: CanvasRenderingContext2D, strokes: DrawingStroke[]): void {
+  for (const stroke of strokes) {
+    stroke.points.forEach((point, index) => {
+      renderSegment(context, stroke, index === 0 ? point : stroke.points[index - 1], point);
+    });
+  }
+}
@@ -1,15 +1,105 @@
+/**
+ * Image format used when a drawing is submitted
+ */
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'svg';
+
 /**
  * Options for opening the canvas
  */
 export interface OpenCanvasOptions {
   /** Background color for the canvas (default: white) */
   backgroundColor?: string;
-  /** Presentation style for iOS (default: sheet) */
+  /** Presentation style (default: sheet). On web, 'sheet' is a modal panel and 'fullScreen' covers the viewport */
   presentationStyle?: 'sheet' | 'fullScreen';
-  /** Show the drag indicator/grabber on iOS sheets (default: true) */
+  /** Show the drag indicator/grabber on sheets (default: true) */
   showGrabber?: boolean;
   /** Allow medium detent on iOS sheets for half-screen mode (default: false) */
   allowMediumDetent?: boolean;
+  /**
+   * Image format of the submitted drawing (default: png). Platforms that
+   * cannot encode WebP fall back to PNG; check `CanvasResult.mediaType`.
+   */
+  exportFormat?: ExportFormat;
+  /** Encoder quality between 0 and 1 for jpeg and webp (default: 0.92) */
+  quality?: number;
+  /** Largest width or height of the exported image in pixels (default: 3200) */
+  maxDimension?: number;
+  /**
+   * Byte budget for the encoded image. When exceeded, the export steps down
+   * quality and then dimensions until it fits (best effort; the smallest
+   * attempt is returned if nothing fits). Unlimited by default.
+   */
+  maxBytes?: number;
+  /**
+   * Park the active draft and start on an empty canvas (default: false).
+   * Parked drafts can be brought back with restoreDraft(). Ignored when
+   * `draftId` is set.
+   */
+  newDraft?: boolean;
+  /**
+   * Continue the draft with this id (e.g. a conversation id), creating it on
+   * minimize if it does not exist yet. The draft becomes the active one.
+   */
+  draftId?: string;
+}
+
+/**
+ * Selects the draft a method works on
+ */
+export interface DraftOptions {
+  /** Draft to use instead of the active one (e.g. a conversation id) */
+  draftId?: string;
+}
+
+/**
+ * Inking tool a stroke was drawn with. Maps to PencilKit's `PKInkType`;
+ * the web canvas only draws with 'pen'.
+ */
+export type DrawingTool = 'pen' | 'pencil' | 'marker' | 'monoline' | 'fountainPen' | 'watercolor' | 'crayon';
+
+/**
+ * A sampled point along a stroke
+ */
+export interface DrawingPoint {
+  /** Horizontal position in canvas points, from the left edge */
+  x: number;
+  /** Vertical position in canvas points, from the top edge */
+  y: number;
+  /** Normalized pressure between 0 and 1 (0.5 for input without pressure) */
+  pressure: number;
+  /** Milliseconds since the stroke's `timestamp` */
+  timeOffset: number;
+}
+
+/**
+ * A continuous stroke, from the moment the pencil touches down until it lifts
+ */
+export interface DrawingStroke {
+  /** Tool the stroke was drawn with */
+  tool: DrawingTool;
+  /** Ink color as a CSS hex string (`#rrggbb` or `#rrggbbaa`) */
+  color: string;
+  /** Nominal stroke width in canvas points, before pressure is applied */
+  width: number;
+  /** Unix time in milliseconds when the stroke started */
+  timestamp: number;
+  /** Sampled points in drawing order */
+  points: DrawingPoint[];
+}
+
+/**
+ * Vector representation of a drawing (JSON stroke format, version 1).
+ * Safe to `JSON.stringify` for storage and to pass back to `setDrawing()`.
+ */
+export interface Drawing {
+  /** Format version */
+  version: 1;
+  /** Width of the canvas the strokes were drawn on, in points */
+  width: number;
+  /** Height of the canvas the strokes were drawn on, in points */
+  height: number;
+  /** Strokes in the order they were drawn */
+  strokes: DrawingStroke[];
 }
 
 /**
@@ -18,8 +108,12 @@ export interface OpenCanvasOptions {
 export interface CanvasResult {
   /** Action taken by user */
   action: 'submitted' | 'minimized' | 'cancelled';
-  /** Base64 PNG image data (only present if action is 'submitted') */
+  /** Base64 image data URL (only present if action is 'submitted') */
   imageData?: string;
+  /** Media type of `imageData`, e.g. image/png (only present if action is 'submitted') */
+  mediaType?: string;
+  /** Strokes of the submitted drawing (only present if action is 'submitted') */
+  drawing?: Drawing;
   /** Whether canvas has content (for minimize case) */
   hasContent: boolean;
 }
@@ -31,6 +125,62 @@ export interface HasContentResult {
   hasContent: boolean;
 }
 
+/**
+ * Response from getDrawing method
+ */
+export interface GetDrawingResult {
+  /** The preserved drawing, or null when the canvas is empty */
+  drawing: Drawing | null;
+}
+
+/**
+ * Options for setDrawing method
+ */
+export interface SetDrawingOptions extends DraftOptions {
+  /** Drawing to load into the canvas, or null to clear it */
+  drawing: Drawing | null;
+}
+
+/**
+ * A saved drawing that can be continued later
+ */
+export interface DraftInfo {
+  /** Draft identifier, used with restoreDraft() */
+  id: string;
+  /** Unix time in milliseconds when the draft was first saved */
+  createdAt: number;
+  /** Unix time in milliseconds when the draft was last minimized */
+  updatedAt: number;
+  /** Number of strokes in the draft */
+  strokeCount: number;
+}
+
+/**
+ * Response from listDrafts method
+ */
+export interface ListDraftsResult {
+  /** All saved drafts, most recently updated first */
+  drafts: DraftInfo[];
+  /** Draft the next openCanvas() continues with, if any */
+  activeDraftId: string | null;
+}
+
+/**
+ * Options for restoreDraft method
+ */
+export interface RestoreDraftOptions {
+  /** Identifier of the draft to continue */
+  id: string;
+}
+
+/**
+ * Options for setActiveDraft method
+ */
+export interface SetActiveDraftOptions {
+  /** Draft to continue, e.g. a conversation id; created on minimize if it does not exist yet */
+  draftId: string;
+}
+
 /**
  * Canvas plugin interface for handwriting input
  */
@@ -40,22 +190,54 @@ export interface CanvasPlugin {
    * Returns when user submits (with image) or minimizes (without image).
    */
   openCanvas(options?: OpenCanvasOptions): Promise<CanvasResult>;
-  
+
   /**
-   * Clears the preserved canvas state (called on new conversation).
+   * Clears the preserved canvas state (deletes the active or given draft).
    */
-  clearCanvas(): Promise<void>;
-  
+  clearCanvas(options?: DraftOptions): Promise<void>;
+
   /**
    * Checks if there's unsaved content on the canvas.
    */
-  hasContent(): Promise<HasContentResult>;
-  
+  hasContent(options?: DraftOptions): Promise<HasContentResult>;
+
+  /**
+   * Returns the preserved (minimized) drawing of the active or given draft as vector strokes.
+   */
+  getDrawing(options?: DraftOptions): Promise<GetDrawingResult>;
+
+  /**
+   * Replaces the preserved drawing of the active or given draft; the next
+   * openCanvas() for that draft continues editing it.
+   */
+  setDrawing(options: SetDrawingOptions): Promise<void>;
+
+  /**
+   * Lists saved drafts. Drafts persist across app restarts and page reloads.
+   */
+  listDrafts(): Promise<ListDraftsResult>;
+
+  /**
+   * Makes a saved draft the active one, so the next openCanvas() continues it.
+   * The previously active draft stays saved.
+   */
+  restoreDraft(options: RestoreDraftOptions): Promise<void>;
+
+  /**
+   * Makes a draft the active one whether or not it has been saved yet, so the
+   * next openCanvas() without a draftId, including an Apple Pencil double-tap,
+   * continues it. The previously active draft stays saved.
+   */
+  setActiveDraft(options: SetActiveDraftOptions): Promise<void>;
+
   /**
    * Add listener for canvas events (pencil-initiated actions)
    */
-  addListener(eventName: 'canvasMinimized' | 'canvasSubmitted' | 'canvasCancelled', listenerFunc: (event: CanvasResult) => void): Promise<any>;
-  
+  addListener(
+    eventName: 'canvasMinimized' | 'canvasSubmitted' | 'canvasCancelled',
+    listenerFunc: (event: CanvasResult) => void,
+  ): Promise<any>;
+
   /**
    * Remove all listeners for canvas events
    */
@@ -0,0 +1,147 @@
+import type { DraftInfo, Drawing } from './definitions';
+
+/**
+ * A parked drawing as persisted by the web implementation
+ */
+export interface DraftRecord {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  drawing: Drawing;
+}
+
+const DATABASE_NAME = 'capacitor-canvas';
+const DATABASE_VERSION = 1;
+const DRAFTS_STORE = 'drafts';
+const META_STORE = 'meta';
+const ACTIVE_DRAFT_KEY = 'activeDraftId';
+
+/**
+ * IndexedDB-backed storage for canvas drafts, so minimized drawings survive
+ * page reloads. Falls back to memory where IndexedDB is unavailable (private
+ * browsing, server rendering), which keeps the pre-persistence behaviour.
+ */
+export class DraftStore {
+  private database: Promise<IDBDatabase | null> | null = null;
+  private readonly memoryDrafts = new Map<string, DraftRecord>();
+  private memoryActiveDraftId: string | null = null;
+
+  // MARK: - Drafts
+
+  async getDraft(id: string): Promise<DraftRecord | null> {
+    const database = await this.open();
+    if (!database) {
+      return this.memoryDrafts.get(id) ?? null;
+    }
+    const record = await request<DraftRecord | undefined>(
+      database.transaction(DRAFTS_STORE).objectStore(DRAFTS_STORE).get(id),
+    );
+    return record ?? null;
+  }
+
+  async putDraft(record: DraftRecord): Promise<void> {
+    const database = await this.open();
+    if (!database) {
+      this.memoryDrafts.set(record.id, record);
+      return;
+    }
+    await request(database.transaction(DRAFTS_STORE, 'readwrite').objectStore(DRAFTS_STORE).put(record));
+  }
+
+  async deleteDraft(id: string): Promise<void> {
+    const database = await this.open();
+    if (!database) {
+      this.memoryDrafts.delete(id);
+      return;
+    }
+    await request(database.transaction(DRAFTS_STORE, 'readwrite').objectStore(DRAFTS_STORE).delete(id));
+  }
+
+  async listDrafts(): Promise<DraftInfo[]> {
+    const database = await this.open();
+    const records = database
+      ? await request<DraftRecord[]>(database.transaction(DRAFTS_STORE).objectStore(DRAFTS_STORE).getAll())
+      : [...this.memoryDrafts.values()];
+
+    return records.map(toDraftInfo).sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  // MARK: - Active Draft
+
+  async getActiveDraftId(): Promise<string | null> {
+    const database = await this.open();
+    if (!database) {
+      return this.memoryActiveDraftId;
+    }
+    const id = await request<string | undefined>(
+      database.transaction(META_STORE).objectStore(META_STORE).get(ACTIVE_DRAFT_KEY),
+    );
+    return id ?? null;
+  }
+
+  async setActiveDraftId(id: string | null): Promise<void> {
+    const database = await this.open();
+    if (!database) {
+      this.memoryActiveDraftId = id;
+      return;
+    }
+    const store = database.transaction(META_STORE, 'readwrite').objectStore(META_STORE);
+    await request(id === null ? store.delete(ACTIVE_DRAFT_KEY) : store.put(id, ACTIVE_DRAFT_KEY));
+  }
+
+  // MARK: - Database
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.database) {
+      this.database = openDatabase().catch((error) => {
+        console.warn('Canvas drafts will not persist, IndexedDB is unavailable:', error);
+        return null;
+      });
+    }
+    return this.database;
+  }
+}
+
+export function toDraftInfo(record: DraftRecord): DraftInfo {
+  return {
+    id: record.id,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    strokeCount: record.drawing.strokes.length,
+  };
+}
+
+export function createDraftId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('indexedDB is not defined'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const openRequest = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    openRequest.onupgradeneeded = () => {
+      const database = openRequest.result;
+      if (!database.objectStoreNames.contains(DRAFTS_STORE)) {
+        database.createObjectStore(DRAFTS_STORE, { keyPath: 'id' });
+      }
+      if (!database.objectStoreNames.contains(META_STORE)) {
+        database.createObjectStore(META_STORE);
+      }
+    };
+    openRequest.onsuccess = () => resolve(openRequest.result);
+    openRequest.onerror = () => reject(openRequest.error);
+  });
+}
+
+function request<T>(idbRequest: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    idbRequest.onsuccess = () => resolve(idbRequest.result as T);
+    idbRequest.onerror = () => reject(idbRequest.error);
+  });
+}
@@ -0,0 +1,193 @@
+import type { DrawingStroke, ExportFormat } from './definitions';
+import { DEFAULT_MAX_EXPORT_DIMENSION } from './ink-export';
+import type { InkRect } from './ink-export';
+
+/**
+ * Resolved export settings, with every `OpenCanvasOptions` default applied
+ */
+export interface ExportSettings {
+  format: ExportFormat;
+  quality: number;
+  maxDimension: number;
+  maxBytes: number | null;
+}
+
+/**
+ * One encoding attempt while stepping down to the byte budget
+ */
+export interface ExportStep {
+  /** Multiplier applied on top of the maxDimension scale */
+  dimensionScale: number;
+  /** Encoder quality for lossy formats */
+  quality: number;
+  /** Decimal places kept in SVG coordinates */
+  precision: number;
+}
+
+export const DEFAULT_EXPORT_QUALITY = 0.92;
+
+const MIN_LOSSY_QUALITY = 0.5;
+const QUALITY_STEPS = [0.8, 0.7, 0.6, MIN_LOSSY_QUALITY];
+const DIMENSION_STEPS = [0.75, 0.5, 0.35, 0.25];
+const SVG_PRECISION_STEPS = [2, 1, 0];
+
+const MEDIA_TYPES: Record<ExportFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+};
+
+export function mediaTypeForFormat(format: ExportFormat): string {
+  return MEDIA_TYPES[format];
+}
+
+/**
+ * Reads the media type from a data URL, which tells whether the encoder
+ * actually produced the requested format (Safari, for one, cannot encode WebP).
+ */
+export function mediaTypeOfDataUrl(dataUrl: string): string {
+  const match = /^data:([^;,]+)/.exec(dataUrl);
+  return match ? match[1] : 'application/octet-stream';
+}
+
+/**
+ * Size in bytes of the payload a data URL decodes to
+ */
+export function dataUrlByteLength(dataUrl: string): number {
+  const commaIndex = dataUrl.indexOf(',');
+  const payload = dataUrl.slice(commaIndex + 1);
+
+  if (!dataUrl.slice(0, commaIndex).endsWith(';base64')) {
+    return new TextEncoder().encode(decodeURIComponent(payload)).length;
+  }
+
+  const padding = payload.endsWith('==') ? 2 : payload.endsWith('=') ? 1 : 0;
+  return Math.floor((payload.length * 3) / 4) - padding;
+}
+
+export function resolveExportSettings(options?: {
+  exportFormat?: ExportFormat;
+  quality?: number;
+  maxDimension?: number;
+  maxBytes?: number;
+}): ExportSettings {
+  return {
+    format: options?.exportFormat ?? 'png',
+    quality: clamp(options?.quality ?? DEFAULT_EXPORT_QUALITY, 0, 1),
+    maxDimension:
+      options?.maxDimension && options.maxDimension > 0 ? options.maxDimension : DEFAULT_MAX_EXPORT_DIMENSION,
+    maxBytes: options?.maxBytes && options.maxBytes > 0 ? options.maxBytes : null,
+  };
+}
+
+/**
+ * Ordered encoding attempts for a format, from best to smallest. The first
+ * attempt honours the requested settings; later ones are only tried while the
+ * output exceeds `maxBytes`. Lossy formats lower quality first, then
+ * dimensions; PNG can only shrink dimensions; SVG drops coordinate precision.
+ */
+export function exportSteps(settings: ExportSettings): ExportStep[] {
+  const first: ExportStep = { dimensionScale: 1, quality: settings.quality, precision: SVG_PRECISION_STEPS[0] };
+  if (settings.maxBytes === null) {
+    return [first];
+  }
+
+  switch (settings.format) {
+    case 'svg':
+      return SVG_PRECISION_STEPS.map((precision) => ({ ...first, precision }));
+    case 'png':
+      return [first, ...DIMENSION_STEPS.map((dimensionScale) => ({ ...first, dimensionScale }))];
+    case 'jpeg':
+    case 'webp': {
+      const qualities = QUALITY_STEPS.filter((quality) => quality < settings.quality);
+      const floor = Math.min(settings.quality, MIN_LOSSY_QUALITY);
+      return [
+        first,
+        ...qualities.map((quality) => ({ ...first, quality })),
+        ...DIMENSION_STEPS.map((dimensionScale) => ({ ...first, dimensionScale, quality: floor })),
+      ];
+    }
+  }
+}
+
+/**
+ * Encodes with each of `exportSteps` in turn until the result fits
+ * `maxBytes`. When nothing fits, the smallest attempt is returned; null means
+ * the encoder gave up (returned null) before producing anything.
+ */
+export function encodeWithinBudget(
+  settings: ExportSettings,
+  encode: (step: ExportStep) => string | null,
+): string | null {
+  let smallest: string | null = null;
+  for (const step of exportSteps(settings)) {
+    const candidate = encode(step);
+    if (candidate === null) {
+      break;
+    }
+
+    const byteLength = dataUrlByteLength(candidate);
+    if (settings.maxBytes === null || byteLength <= settings.maxBytes) {
+      return candidate;
+    }
+    if (smallest === null || byteLength < dataUrlByteLength(smallest)) {
+      smallest = candidate;
+    }
+  }
+  return smallest;
+}
+
+// MARK: - SVG
+
+/**
+ * Serializes strokes inside `region` as an SVG document. Each stroke becomes a
+ * single path at its average pressure-adjusted width, on a white background
+ * to match the raster exports.
+ */
+export function renderStrokesToSvg(
+  strokes: readonly DrawingStroke[],
+  region: InkRect,
+  scale: number,
+  precision: number,
+  lineWidthFor: (stroke: DrawingStroke, pressure: number) => number,
+): string {
+  const format = (value: number) => Number(value.toFixed(precision)).toString();
+  const width = format(region.width * scale);
+  const height = format(region.height * scale);
+
+  const paths = strokes
+    .filter((stroke) => stroke.points.length > 0)
+    .map((stroke) => {
+      const averagePressure = stroke.points.reduce((sum, point) => sum + point.pressure, 0) / stroke.points.length;
+      const points = stroke.points.map(
+        (point) => `${format((point.x - region.x) * scale)} ${format((point.y - region.y) * scale)}`,
+      );
+      // Single-point strokes still need a segment for the round cap to show up as a dot
+      const data = points.length === 1 ? `M${points[0]}L${points[0]}` : `M${points.join('L')}`;
+      return `<path d="${data}" stroke="${stroke.color}" stroke-width="${format(
+        lineWidthFor(stroke, averagePressure) * scale,
+      )}"/>`;
+    });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="100%" height="100%" fill="#ffffff"/>`,
+    `<g fill="none" stroke-linecap="round" stroke-linejoin="round">`,
+    ...paths,
+    `</g>`,
+    `</svg>`,
+  ].join('');
+}
+
+export function svgToDataUrl(svg: string): string {
+  let binary = '';
+  new TextEncoder().encode(svg).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return `data:image/svg+xml;base64,${btoa(binary)}`;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
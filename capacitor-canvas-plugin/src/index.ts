@@ -7,4 +7,6 @@ const Canvas = registerPlugin<CanvasPlugin>('Canvas', {
 });
 
 export * from './definitions';
+export * from './ink-export';
+export * from './export-format';
 export { Canvas };
@@ -0,0 +1,176 @@
+/**
+ * Platform-independent port of the crop-to-ink export pipeline in Canvas.swift.
+ *
+ * All functions are pure and work in canvas coordinates, so the web
+ * implementation, tests and any server-side re-rendering produce the same
+ * export region, padding and dimensions as the native `CanvasViewController`.
+ */
+
+export interface InkPoint {
+  x: number;
+  y: number;
+}
+
+export interface InkRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface InkSize {
+  width: number;
+  height: number;
+}
+
+export interface ScalingResult {
+  /** Original bounding box */
+  original: InkRect;
+  /** Scale factor applied */
+  scale: number;
+  /** Final rendered size */
+  size: InkSize;
+}
+
+export interface InkExportRegion {
+  /** Tight bounding box around every stroke point */
+  boundingBox: InkRect;
+  /** Bounding box after padding and clipping to the canvas */
+  clippedBox: InkRect;
+  /** Scale factor and final dimensions for the clipped box */
+  scaling: ScalingResult;
+}
+
+/** Padding added around the ink on every side (matches the native default) */
+export const DEFAULT_EXPORT_PADDING = 32;
+
+/** Largest width or height of an exported image (matches the native default) */
+export const DEFAULT_MAX_EXPORT_DIMENSION = 3200;
+
+const ZERO_RECT: InkRect = { x: 0, y: 0, width: 0, height: 0 };
+
+// MARK: - Bounding Box Calculation
+
+export function calculateBoundingBox(strokes: readonly { points: readonly InkPoint[] }[]): InkRect {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  // Expand bounding box to include every point of every stroke
+  for (const stroke of strokes) {
+    for (const point of stroke.points) {
+      minX = Math.min(minX, point.x);
+      minY = Math.min(minY, point.y);
+      maxX = Math.max(maxX, point.x);
+      maxY = Math.max(maxY, point.y);
+    }
+  }
+
+  // Return empty rect for drawings with no strokes
+  if (minX === Infinity) {
+    return { ...ZERO_RECT };
+  }
+
+  return {
+    x: minX,
+    y: minY,
+    width: maxX - minX,
+    height: maxY - minY,
+  };
+}
+
+// MARK: - Padding Logic
+
+export function addPaddingToBoundingBox(boundingBox: InkRect, padding: number = DEFAULT_EXPORT_PADDING): InkRect {
+  // Expand the bounding box by `padding` on all sides
+  const paddedBox = {
+    x: boundingBox.x - padding,
+    y: boundingBox.y - padding,
+    width: boundingBox.width + 2 * padding,
+    height: boundingBox.height + 2 * padding,
+  };
+
+  // Ensure minimum size if the original bounding box is degenerate
+  return {
+    x: paddedBox.x,
+    y: paddedBox.y,
+    width: Math.max(paddedBox.width, 2 * padding),
+    height: Math.max(paddedBox.height, 2 * padding),
+  };
+}
+
+// MARK: - Clipping Logic
+
+export function clipPaddedBoxToCanvasBounds(paddedBox: InkRect, canvasBounds: InkRect): InkRect {
+  const minX = Math.max(paddedBox.x, canvasBounds.x);
+  const minY = Math.max(paddedBox.y, canvasBounds.y);
+  const maxX = Math.min(paddedBox.x + paddedBox.width, canvasBounds.x + canvasBounds.width);
+  const maxY = Math.min(paddedBox.y + paddedBox.height, canvasBounds.y + canvasBounds.height);
+
+  // An empty intersection falls back to the whole canvas, like CGRect.isEmpty in Swift
+  if (maxX <= minX || maxY <= minY) {
+    return { ...canvasBounds };
+  }
+
+  return {
+    x: minX,
+    y: minY,
+    width: maxX - minX,
+    height: maxY - minY,
+  };
+}
+
+// MARK: - Scaling Logic
+
+export function scaleIfNeeded(rect: InkRect, maxDimension: number = DEFAULT_MAX_EXPORT_DIMENSION): ScalingResult {
+  const { width, height } = rect;
+
+  if (width <= maxDimension && height <= maxDimension) {
+    return {
+      original: rect,
+      scale: 1,
+      size: { width, height },
+    };
+  }
+
+  const scale = Math.min(maxDimension / width, maxDimension / height);
+  return {
+    original: rect,
+    scale,
+    size: {
+      width: width * scale,
+      height: height * scale,
+    },
+  };
+}
+
+// MARK: - Pipeline
+
+/**
+ * Runs the full pipeline the native submit performs: bounding box, padding,
+ * clipping to the canvas and scaling down to the maximum dimension.
+ */
+export function calculateExportRegion(
+  strokes: readonly { points: readonly InkPoint[] }[],
+  canvasBounds: InkRect,
+  options: { padding?: number; maxDimension?: number } = {},
+): InkExportRegion {
+  const boundingBox = calculateBoundingBox(strokes);
+  const paddedBox = addPaddingToBoundingBox(boundingBox, options.padding);
+  const clippedBox = clipPaddedBoxToCanvasBounds(paddedBox, canvasBounds);
+  const scaling = scaleIfNeeded(clippedBox, options.maxDimension);
+
+  return { boundingBox, clippedBox, scaling };
+}
+
+/**
+ * Pixel dimensions of the rendered image. Fractional sizes round up, as
+ * `UIGraphicsImageRenderer` does.
+ */
+export function exportPixelSize(scaling: ScalingResult): InkSize {
+  return {
+    width: Math.max(1, Math.ceil(scaling.size.width)),
+    height: Math.max(1, Math.ceil(scaling.size.height)),
+  };
+}
@@ -1,41 +1,156 @@
 import { WebPlugin } from '@capacitor/core';
 
-import type { CanvasPlugin, OpenCanvasOptions, CanvasResult, HasContentResult } from './definitions';
+import { Canvas, CanvasOverlay } from './canvas';
+import type {
+  CanvasPlugin,
+  OpenCanvasOptions,
+  CanvasResult,
+  Drawing,
+  DraftOptions,
+  HasContentResult,
+  GetDrawingResult,
+  SetDrawingOptions,
+  ListDraftsResult,
+  RestoreDraftOptions,
+  SetActiveDraftOptions,
+} from './definitions';
+import { resolveExportSettings } from './export-format';
 
 export class CanvasWeb extends WebPlugin implements CanvasPlugin {
+  private readonly implementation = new Canvas();
+  private isCanvasOpen = false;
+
   async echo(options: { value: string }): Promise<{ value: string }> {
     console.log('ECHO', options);
     return options;
   }
 
   async openCanvas(options?: OpenCanvasOptions): Promise<CanvasResult> {
-    console.log('Web openCanvas called with options:', options);
-    // For web testing, return a mock result
-    return {
-      action: 'cancelled',
-      hasContent: false
-    };
+    if (this.isCanvasOpen) {
+      throw new Error('Canvas is already open');
+    }
+    this.isCanvasOpen = true;
+
+    try {
+      if (options?.draftId) {
+        await this.implementation.activateDraft(options.draftId);
+      } else if (options?.newDraft) {
+        await this.implementation.parkActiveDraft();
+      }
+      const initialDrawing = await this.implementation.getPreservedDrawing();
+      const { result, minimizedDrawing } = await this.presentCanvas(options, initialDrawing);
+
+      // Persist before resolving so hasContent() reflects the outcome immediately
+      if (result.action === 'submitted') {
+        await this.implementation.clearCanvas();
+      } else if (minimizedDrawing) {
+        await this.implementation.setPreservedDrawing(minimizedDrawing);
+      }
+      return result;
+    } finally {
+      this.isCanvasOpen = false;
+    }
+  }
+
+  private presentCanvas(
+    options: OpenCanvasOptions | undefined,
+    initialDrawing: Drawing | null,
+  ): Promise<{ result: CanvasResult; minimizedDrawing?: Drawing }> {
+    return new Promise((resolve) => {
+      const overlay = new CanvasOverlay(
+        {
+          backgroundColor: options?.backgroundColor ?? 'white',
+          presentationStyle: options?.presentationStyle ?? 'sheet',
+          showGrabber: options?.showGrabber ?? true,
+          exportSettings: resolveExportSettings(options),
+          initialDrawing,
+        },
+        {
+          canvasDidSubmit: (imageData, mediaType, drawing) => {
+            resolve({
+              result: {
+                action: 'submitted',
+                imageData,
+                mediaType,
+                drawing,
+                hasContent: false,
+              },
+            });
+          },
+          canvasDidMinimize: (drawing) => {
+            resolve({
+              result: {
+                action: 'minimized',
+                hasContent: drawing.strokes.length > 0,
+              },
+              minimizedDrawing: drawing,
+            });
+          },
+          canvasDidCancel: () => {
+            // Cancelling keeps the draft as it was when the canvas opened
+            resolve({
+              result: {
+                action: 'cancelled',
+                hasContent: initialDrawing !== null && initialDrawing.strokes.length > 0,
+              },
+            });
+          },
+        },
+      );
+
+      overlay.present();
+    });
+  }
+
+  async clearCanvas(options?: DraftOptions): Promise<void> {
+    await this.implementation.clearCanvas(options?.draftId);
+  }
+
+  async hasContent(options?: DraftOptions): Promise<HasContentResult> {
+    return { hasContent: await this.implementation.hasContent(options?.draftId) };
+  }
+
+  async getDrawing(options?: DraftOptions): Promise<GetDrawingResult> {
+    return { drawing: await this.implementation.getPreservedDrawing(options?.draftId) };
+  }
+
+  async setDrawing(options: SetDrawingOptions): Promise<void> {
+    if (this.isCanvasOpen) {
+      throw new Error('Cannot replace the drawing while the canvas is open');
+    }
+    await this.implementation.setPreservedDrawing(options.drawing, options.draftId);
+  }
+
+  async listDrafts(): Promise<ListDraftsResult> {
+    return this.implementation.listDrafts();
   }
 
-  async clearCanvas(): Promise<void> {
-    console.log('Web clearCanvas called');
-    // No-op for web
+  async restoreDraft(options: RestoreDraftOptions): Promise<void> {
+    if (this.isCanvasOpen) {
+      throw new Error('Cannot restore a draft while the canvas is open');
+    }
+    if (!(await this.implementation.restoreDraft(options.id))) {
+      throw new Error(`Draft not found: ${options.id}`);
+    }
   }
 
-  async hasContent(): Promise<HasContentResult> {
-    console.log('Web hasContent called');
-    return { hasContent: false };
+  async setActiveDraft(options: SetActiveDraftOptions): Promise<void> {
+    if (this.isCanvasOpen) {
+      throw new Error('Cannot change the active draft while the canvas is open');
+    }
+    await this.implementation.activateDraft(options.draftId);
   }
 
-  async addListener(eventName: 'canvasMinimized' | 'canvasSubmitted' | 'canvasCancelled', listenerFunc: (event: CanvasResult) => void): Promise<any> {
-    console.log('Web addListener called for event:', eventName);
-    // For web, we can use the parent class's addListener method
+  async addListener(
+    eventName: 'canvasMinimized' | 'canvasSubmitted' | 'canvasCancelled',
+    listenerFunc: (event: CanvasResult) => void,
+  ): Promise<any> {
+    // Events are only emitted natively for Apple Pencil double-taps; the web
+    // overlay always resolves the openCanvas call instead
     return super.addListener(eventName, listenerFunc);
   }
 
   async removeAllListeners(): Promise<void> {
-    console.log('Web removeAllListeners called');
-    // For web, we can use the parent class's removeAllListeners method
     return super.removeAllListeners();
   }
 }
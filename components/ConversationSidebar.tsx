@@ -0,0 +1,267 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { MoreHorizontalIcon, PencilIcon, PenToolIcon, PinIcon, PinOffIcon, Trash2Icon } from 'lucide-react';
+import { MessageAttachment } from '@/components/ai-elements/message';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { localConversations, type LocalConversationSummary } from '@/lib/local-conversation-store';
+import { useConversationList } from '@/lib/useConversationList';
+import { cn } from '@/lib/utils';
+
+export interface ConversationSidebarProps {
+  /**
+   * Conversation shown in the chat, highlighted in the list
+   */
+  activeConversationId: string;
+
+  /**
+   * Opens a saved conversation
+   */
+  onSelect: (id: string) => void;
+
+  /**
+   * Called after a conversation is deleted, e.g. to leave it if it was open
+   */
+  onDelete?: (id: string) => void;
+
+  className?: string;
+}
+
+/**
+ * Conversation Sidebar Component
+ *
+ * Lists conversations saved on the device or on the server, pinned first,
+ * with a thumbnail of the first drawing. Search matches typed text and
+ * drawing transcriptions.
+ */
+export function ConversationSidebar({ activeConversationId, onSelect, onDelete, className }: ConversationSidebarProps) {
+  const { conversations, deleteConversation } = useConversationList();
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+
+  const pinned = conversations.filter((conversation) => conversation.pinned);
+  const recent = conversations.filter((conversation) => !conversation.pinned);
+
+  const handleDelete = async (conversation: LocalConversationSummary) => {
+    if (!window.confirm(`Delete "${conversation.title}"?`)) {
+      return;
+    }
+    await deleteConversation(conversation.id);
+    onDelete?.(conversation.id);
+  };
+
+  const renderItem = (conversation: LocalConversationSummary) => (
+    <ConversationItem
+      key={conversation.id}
+      conversation={conversation}
+      isActive={conversation.id === activeConversationId}
+      isRenaming={conversation.id === renamingId}
+      onSelect={() => onSelect(conversation.id)}
+      onStartRename={() => setRenamingId(conversation.id)}
+      onRename={(title) => {
+        setRenamingId(null);
+        if (title && title !== conversation.title) {
+          localConversations.rename(conversation.id, title).catch((error) => {
+            console.error('Failed to rename conversation:', error);
+          });
+        }
+      }}
+      onTogglePin={() => {
+        localConversations.setPinned(conversation.id, !conversation.pinned).catch((error) => {
+          console.error('Failed to pin conversation:', error);
+        });
+      }}
+      onDelete={() => {
+        handleDelete(conversation).catch((error) => {
+          console.error('Failed to delete conversation:', error);
+        });
+      }}
+    />
+  );
+
+  return (
+    <aside className={cn('flex h-full flex-col border-r bg-muted/30', className)}>
+      <Command
+        className="bg-transparent"
+        // Plain substring search over titles, text and transcriptions
+        filter={(_value, search, keywords) =>
+          (keywords ?? []).some((keyword) => keyword.toLowerCase().includes(search.trim().toLowerCase())) ? 1 : 0
+        }
+      >
+        <CommandInput placeholder="Search conversations..." />
+        <ScrollArea className="min-h-0 flex-1">
+          <CommandList className="max-h-none">
+            <CommandEmpty>No conversations found.</CommandEmpty>
+            {pinned.length > 0 && <CommandGroup heading="Pinned">{pinned.map(renderItem)}</CommandGroup>}
+            {recent.length > 0 && <CommandGroup heading="Recent">{recent.map(renderItem)}</CommandGroup>}
+          </CommandList>
+        </ScrollArea>
+      </Command>
+    </aside>
+  );
+}
+
+interface ConversationItemProps {
+  conversation: LocalConversationSummary;
+  isActive: boolean;
+  isRenaming: boolean;
+  onSelect: () => void;
+  onStartRename: () => void;
+  onRename: (title: string) => void;
+  onTogglePin: () => void;
+  onDelete: () => void;
+}
+
+function ConversationItem({
+  conversation,
+  isActive,
+  isRenaming,
+  onSelect,
+  onStartRename,
+  onRename,
+  onTogglePin,
+  onDelete,
+}: ConversationItemProps) {
+  return (
+    <CommandItem
+      value={conversation.id}
+      keywords={[conversation.title, conversation.searchText]}
+      onSelect={isRenaming ? undefined : onSelect}
+      className={cn('gap-3 py-2', isActive && 'bg-accent/60')}
+    >
+      <ConversationThumbnail imageId={conversation.thumbnailImageId} />
+      <div className="min-w-0 flex-1">
+        {isRenaming ? (
+          <RenameInput initialTitle={conversation.title} onDone={onRename} />
+        ) : (
+          <div className="truncate font-medium">{conversation.title}</div>
+        )}
+        <div className="text-xs text-muted-foreground">{formatUpdatedAt(conversation.updatedAt)}</div>
+      </div>
+      {conversation.pinned && <PinIcon aria-label="Pinned" className="size-3" />}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-7"
+            aria-label="Conversation actions"
+            // Keep the row from opening the conversation
+            onClick={(event) => event.stopPropagation()}
+            onPointerDown={(event) => event.stopPropagation()}
+          >
+            <MoreHorizontalIcon className="size-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={onStartRename}>
+            <PencilIcon />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={onTogglePin}>
+            {conversation.pinned ? <PinOffIcon /> : <PinIcon />}
+            {conversation.pinned ? 'Unpin' : 'Pin'}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem variant="destructive" onSelect={onDelete}>
+            <Trash2Icon />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </CommandItem>
+  );
+}
+
+function RenameInput({ initialTitle, onDone }: { initialTitle: string; onDone: (title: string) => void }) {
+  const [title, setTitle] = useState(initialTitle);
+
+  return (
+    <Input
+      autoFocus
+      value={title}
+      aria-label="Conversation title"
+      className="h-7"
+      onChange={(event) => setTitle(event.target.value)}
+      onBlur={() => onDone(title.trim())}
+      onClick={(event) => event.stopPropagation()}
+      onKeyDown={(event: React.KeyboardEvent<HTMLInputElement>) => {
+        // Keep Enter and the arrow keys from driving the list
+        event.stopPropagation();
+        if (event.key === 'Enter') {
+          onDone(title.trim());
+        } else if (event.key === 'Escape') {
+          onDone(initialTitle);
+        }
+      }}
+    />
+  );
+}
+
+function ConversationThumbnail({ imageId }: { imageId?: string }) {
+  const [image, setImage] = useState<{ url: string; mediaType: string } | null>(null);
+
+  useEffect(() => {
+    if (!imageId) {
+      return;
+    }
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    localConversations
+      .getImageBlob(imageId)
+      .then((blob) => {
+        if (blob && !cancelled) {
+          objectUrl = URL.createObjectURL(blob);
+          setImage({ url: objectUrl, mediaType: blob.type || 'image/png' });
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load thumbnail:', error);
+      });
+    return () => {
+      cancelled = true;
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+      }
+      setImage(null);
+    };
+  }, [imageId]);
+
+  if (imageId && image) {
+    return (
+      <MessageAttachment
+        data={{ type: 'file', filename: 'Drawing', ...image }}
+        className="size-10 shrink-0 rounded-md border bg-white"
+      />
+    );
+  }
+  return (
+    <div className="flex size-10 shrink-0 items-center justify-center overflow-hidden rounded-md border bg-white">
+      <PenToolIcon className="size-4" />
+    </div>
+  );
+}
+
+function formatUpdatedAt(timestamp: number): string {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import React, { useState } from 'react';
+import { KeyRoundIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+
+export interface DeviceEnrollmentProps {
+  /**
+   * Enrolls the device with the entered code; rejects if the code is invalid
+   */
+  onEnroll: (enrollmentCode: string) => Promise<void>;
+}
+
+/**
+ * Device Enrollment Component
+ * 
+ * Asks for the enrollment code the first time the app runs on a device.
+ * After enrolling, the device authenticates with short-lived tokens instead
+ * of a key shipped inside the app.
+ */
+export function DeviceEnrollment({ onEnroll }: DeviceEnrollmentProps) {
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isEnrolling, setIsEnrolling] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsEnrolling(true);
+    setError(null);
+    try {
+      await onEnroll(code.trim());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Enrollment failed');
+    } finally {
+      setIsEnrolling(false);
+    }
+  };
+
+  return (
+    <div className="flex h-screen items-center justify-center p-6">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>Set up this device</CardTitle>
+          <CardDescription>Enter the enrollment code you were given to start using Chatty Pencil.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+            <Input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Enrollment code"
+              autoComplete="off"
+              autoCapitalize="off"
+              aria-invalid={error !== null}
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <Button type="submit" disabled={!code.trim() || isEnrolling}>
+              <KeyRoundIcon className="size-4" />
+              {isEnrolling ? 'Enrolling...' : 'Enroll device'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
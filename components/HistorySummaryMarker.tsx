@@ -0,0 +1,59 @@
+'use client';
+
+import { ChevronDownIcon, ScrollTextIcon } from 'lucide-react';
+import { Collapsible, CollapsibleTrigger } from '@/components/ui/collapsible';
+import type { HistorySummary } from '@/lib/chat-message';
+
+export interface HistorySummaryMarkerProps {
+  summary: HistorySummary;
+
+  /**
+   * Number of original messages the summary stands in for
+   */
+  messageCount: number;
+
+  /**
+   * Whether the original messages are shown below the marker
+   */
+  expanded: boolean;
+  onExpandedChange: (expanded: boolean) => void;
+}
+
+/**
+ * History Summary Marker Component
+ *
+ * Marks where the conversation the model sees begins once older turns have
+ * been folded into a summary, and shows that summary. The original messages
+ * stay hidden until the user expands them.
+ */
+export function HistorySummaryMarker({ summary, messageCount, expanded, onExpandedChange }: HistorySummaryMarkerProps) {
+  return (
+    <Collapsible open={expanded} onOpenChange={onExpandedChange} className="rounded-lg border bg-muted/40 p-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2 font-medium">
+          <ScrollTextIcon className="size-4" />
+          Summary of {messageCount} earlier {messageCount === 1 ? 'message' : 'messages'}
+        </span>
+        <CollapsibleTrigger className="group flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+          {expanded ? 'Hide originals' : 'Show originals'}
+          <ChevronDownIcon className="size-3 transition-transform group-data-[state=open]:rotate-180" />
+        </CollapsibleTrigger>
+      </div>
+      <p className="mt-2 whitespace-pre-wrap text-muted-foreground">{summary.text}</p>
+    </Collapsible>
+  );
+}
+
+/**
+ * Divider after the expanded original messages, where the model's view of
+ * the conversation continues
+ */
+export function HistorySummaryEnd() {
+  return (
+    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+      <div className="h-px flex-1 bg-border" />
+      End of summarized messages
+      <div className="h-px flex-1 bg-border" />
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import { getToolName, type ToolUIPart } from 'ai';
+import {
+  Confirmation,
+  ConfirmationAccepted,
+  ConfirmationAction,
+  ConfirmationActions,
+  ConfirmationRejected,
+  ConfirmationRequest,
+  ConfirmationTitle,
+  type ConfirmationState,
+} from '@/components/ai-elements/confirmation';
+import { ToolInput } from '@/components/ai-elements/tool';
+import type { ToolApproval } from '@/lib/chat-message';
+
+export interface ToolApprovalCardProps {
+  part: ToolUIPart;
+
+  /**
+   * The user's answer, once given
+   */
+  approval?: ToolApproval;
+  onRespond: (approved: boolean) => void;
+}
+
+/**
+ * Tool Approval Card Component
+ *
+ * Asks the user whether a paused tool call may run, showing the input the
+ * model proposed, and afterwards records what they answered.
+ */
+export function ToolApprovalCard({ part, approval, onRespond }: ToolApprovalCardProps) {
+  const toolName = getToolName(part);
+  // Confirmation is written against AI SDK v6 tool states; this app pauses
+  // calls itself, so map the answer onto those states
+  const state: ConfirmationState = approval ? 'approval-responded' : 'approval-requested';
+
+  return (
+    <Confirmation
+      approval={approval ? { id: part.toolCallId, approved: approval.approved } : { id: part.toolCallId }}
+      state={state}
+    >
+      <ConfirmationTitle>
+        <ConfirmationRequest>
+          The assistant wants to use <code>{toolName}</code>. Allow it with this input?
+        </ConfirmationRequest>
+        <ConfirmationAccepted>
+          You allowed <code>{toolName}</code>.
+        </ConfirmationAccepted>
+        <ConfirmationRejected>
+          You declined <code>{toolName}</code>.
+        </ConfirmationRejected>
+      </ConfirmationTitle>
+      <ConfirmationRequest>
+        <ToolInput input={part.input} className="p-0" />
+      </ConfirmationRequest>
+      <ConfirmationActions>
+        <ConfirmationAction variant="outline" onClick={() => onRespond(false)}>
+          Decline
+        </ConfirmationAction>
+        <ConfirmationAction onClick={() => onRespond(true)}>Allow</ConfirmationAction>
+      </ConfirmationActions>
+    </Confirmation>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { ChevronDownIcon } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+
+export interface TranscriptionCaptionProps {
+  /**
+   * Text read from the drawing
+   */
+  text: string;
+}
+
+/**
+ * Transcription Caption Component
+ *
+ * Collapsed "What I read" caption under a drawing, so the user can check how
+ * their handwriting was understood.
+ */
+export function TranscriptionCaption({ text }: TranscriptionCaptionProps) {
+  return (
+    <Collapsible className="mt-2">
+      <CollapsibleTrigger className="group flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+        <ChevronDownIcon className="size-3 transition-transform group-data-[state=open]:rotate-180" />
+        What I read
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-1 whitespace-pre-wrap text-sm">{text}</CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { authenticateRequest } from '../api-route';
+import { issueAccessToken, issueDeviceCredential, verifyToken } from '../device-tokens';
+
+function request(headers: Record<string, string>): Request {
+  return new Request('http://localhost/api/models', { headers });
+}
+
+describe('authenticateRequest', () => {
+  beforeEach(() => {
+    vi.stubEnv('TOKEN_SIGNING_SECRET', 'x'.repeat(32));
+    vi.stubEnv('API_KEYS_FILE', '');
+    vi.stubEnv('API_SECRET_KEY', '');
+    vi.stubEnv('API_KEYS', JSON.stringify({ keys: [{ name: 'alice-ipad', key: 'alice-key' }] }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  async function accessTokenFor(keyName: string): Promise<string> {
+    const device = await verifyToken(issueDeviceCredential(keyName).deviceCredential, 'device');
+    return issueAccessToken(device!).accessToken;
+  }
+
+  it('accepts a configured API key', async () => {
+    expect(await authenticateRequest(request({ 'x-api-key': 'alice-key' }))).toEqual({ keyName: 'alice-ipad' });
+    expect(await authenticateRequest(request({ 'x-api-key': 'wrong' }))).toBeNull();
+  });
+
+  it('accepts an access token whose enrollment key is active', async () => {
+    const token = await accessTokenFor('alice-ipad');
+    expect(await authenticateRequest(request({ authorization: `Bearer ${token}` }))).toMatchObject({
+      keyName: 'alice-ipad',
+    });
+  });
+
+  it('rejects an access token once its enrollment key is removed or revoked', async () => {
+    const token = await accessTokenFor('alice-ipad');
+
+    vi.stubEnv('API_KEYS', JSON.stringify({ keys: [{ name: 'alice-ipad', key: 'alice-key', revoked: true }] }));
+    expect(await authenticateRequest(request({ authorization: `Bearer ${token}` }))).toBeNull();
+
+    vi.stubEnv('API_KEYS', JSON.stringify({ keys: [{ name: 'bob', key: 'bob-key' }] }));
+    expect(await authenticateRequest(request({ authorization: `Bearer ${token}` }))).toBeNull();
+  });
+});
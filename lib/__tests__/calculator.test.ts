@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { calculate, CalculatorError, convertUnits } from '../calculator';
+
+describe('calculate', () => {
+  it.each([
+    ['1 + 2 * 3', '7'],
+    ['(1 + 2) * 3', '9'],
+    ['7 - 2 - 1', '4'],
+    ['8 / 4 / 2', '1'],
+    ['2 * 3 ^ 2', '18'],
+  ])('applies precedence and associativity: %s = %s', (expression, result) => {
+    expect(calculate(expression).result).toBe(result);
+  });
+
+  it('binds ^ tighter than a leading minus', () => {
+    expect(calculate('-2^2').result).toBe('-4');
+    expect(calculate('(-2)^2').result).toBe('4');
+  });
+
+  it('evaluates ^ right to left', () => {
+    expect(calculate('2^3^2').result).toBe('512');
+  });
+
+  it('keeps results exact', () => {
+    expect(calculate('0.1 + 0.2')).toEqual({ result: '3/10', decimal: '0.3', exact: true });
+    expect(calculate('2^-1')).toEqual({ result: '1/2', decimal: '0.5', exact: true });
+    expect(calculate('1/3')).toMatchObject({ result: '1/3', exact: false });
+  });
+
+  it('refuses results too large to compute', () => {
+    expect(() => calculate('9^9^9')).toThrow(new CalculatorError('Result is too large'));
+  });
+
+  it.each(['1/0', '1 / (2 - 2)', '0^-1'])('rejects division by zero in %s', (expression) => {
+    expect(() => calculate(expression)).toThrow(new CalculatorError('Division by zero'));
+  });
+
+  it.each(['', '1 +', '(1 + 2', '1 $ 2'])('rejects the malformed expression %j', (expression) => {
+    expect(() => calculate(expression)).toThrow(CalculatorError);
+  });
+});
+
+describe('convertUnits', () => {
+  it.each([
+    ['100', 'c', 'f', '212'],
+    ['-40', 'celsius', 'fahrenheit', '-40'],
+    ['98.6', 'f', 'c', '37'],
+    ['0', 'k', 'c', '-5463/20'],
+    ['0', 'c', 'k', '5463/20'],
+  ])('converts %s %s to %s %s, applying the scale offsets', (value, from, to, result) => {
+    expect(convertUnits(value, from, to).result).toBe(result);
+  });
+
+  it('converts scaled units exactly', () => {
+    expect(convertUnits('1', 'mile', 'km')).toMatchObject({ decimal: '1.609344', exact: true });
+  });
+
+  it('rejects units of different dimensions', () => {
+    expect(() => convertUnits('1', 'c', 'm')).toThrow(new CalculatorError('Cannot convert temperature (c) to length (m)'));
+  });
+});
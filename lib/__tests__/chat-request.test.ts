@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { parseChatRequest, type ChatRequestLimits } from '../chat-request';
+
+const limits: ChatRequestLimits = {
+  maxBodyBytes: 1024 * 1024,
+  maxMessages: 10,
+  maxFileParts: 2,
+  maxImageBytes: 1024,
+};
+
+const drawing = { type: 'file', mediaType: 'image/png', url: 'data:image/png;base64,iVBORw0KGgo=' };
+
+function request(body: unknown): Request {
+  return new Request('http://localhost/api/chat', { method: 'POST', body: JSON.stringify(body) });
+}
+
+function turn(index: number, parts: unknown[]) {
+  return [
+    { id: `u${index}`, role: 'user', parts },
+    { id: `a${index}`, role: 'assistant', parts: [{ type: 'text', text: 'ok' }] },
+  ];
+}
+
+describe('parseChatRequest', () => {
+  it('accepts a history with more files than the limit when the new message is within it', async () => {
+    const history = [1, 2, 3].flatMap((index) => turn(index, [drawing, drawing]));
+    const messages = [...history, { id: 'u4', role: 'user', parts: [drawing] }];
+
+    const result = await parseChatRequest(request({ messages }), limits);
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects a new message with too many files', async () => {
+    const messages = [{ id: 'u1', role: 'user', parts: [drawing, drawing, drawing] }];
+
+    const result = await parseChatRequest(request({ messages }), limits);
+    expect(result).toMatchObject({ success: false, status: 400, issues: [{ path: 'messages.0' }] });
+  });
+
+  it('rejects too many messages', async () => {
+    const messages = Array.from({ length: 6 }, (_, index) => turn(index, [{ type: 'text', text: 'hi' }])).flat();
+
+    const result = await parseChatRequest(request({ messages }), limits);
+    expect(result).toMatchObject({ success: false, status: 400, error: 'Too many messages (limit 10)' });
+  });
+});
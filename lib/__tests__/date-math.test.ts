@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { addToDate, dateDifference, DateMathError, isValidTimeZone, localToday } from '../date-math';
+
+// 03:30 UTC on a Saturday is still Friday evening in Los Angeles
+const now = new Date('2026-10-17T03:30:00Z');
+
+describe('localToday', () => {
+  it("uses the date in the user's time zone", () => {
+    expect(localToday('America/Los_Angeles', now).toISOString()).toBe('2026-10-16T00:00:00.000Z');
+    expect(localToday('Asia/Tokyo', now).toISOString()).toBe('2026-10-17T00:00:00.000Z');
+    expect(localToday(undefined, now).toISOString()).toBe('2026-10-17T00:00:00.000Z');
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA names only', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
+
+describe('addToDate', () => {
+  it('counts from the given today', () => {
+    expect(addToDate('today', { weeks: 1 }, localToday('America/Los_Angeles', now))).toEqual({
+      date: '2026-10-23',
+      weekday: 'Friday',
+    });
+  });
+
+  it('clamps to the end of shorter months', () => {
+    expect(addToDate('2025-01-31', { months: 1 }).date).toBe('2025-02-28');
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(() => addToDate('2025-02-30', { days: 1 })).toThrow(DateMathError);
+  });
+});
+
+describe('dateDifference', () => {
+  it('reports calendar parts with the sign of the span', () => {
+    expect(dateDifference('2026-03-15', '2025-01-10')).toMatchObject({
+      days: -429,
+      years: -1,
+      months: -2,
+      remainingDays: -5,
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { mkdtemp, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { issueAccessToken, issueDeviceCredential, parseRevokedDevices, verifyToken } from '../device-tokens';
+
+describe('device tokens', () => {
+  beforeEach(() => {
+    vi.stubEnv('TOKEN_SIGNING_SECRET', 'x'.repeat(32));
+    vi.stubEnv('REVOKED_DEVICES', '');
+    vi.stubEnv('REVOKED_DEVICES_FILE', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+  });
+
+  it('round-trips a device credential and its access tokens', async () => {
+    const { deviceId, deviceCredential } = issueDeviceCredential('alice-ipad');
+    const device = await verifyToken(deviceCredential, 'device');
+    expect(device).toMatchObject({ typ: 'device', sub: deviceId, key: 'alice-ipad' });
+
+    const { accessToken } = issueAccessToken(device!);
+    expect(await verifyToken(accessToken, 'access')).toMatchObject({ sub: deviceId, key: 'alice-ipad' });
+    // A token is only accepted as the type it was issued as
+    expect(await verifyToken(accessToken, 'device')).toBeNull();
+  });
+
+  it('rejects a tampered token', async () => {
+    const { deviceCredential } = issueDeviceCredential('alice-ipad');
+    const [payload, signature] = deviceCredential.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ ...JSON.parse(Buffer.from(payload, 'base64url').toString()), key: 'admin' }),
+    ).toString('base64url');
+    expect(await verifyToken(`${forged}.${signature}`, 'device')).toBeNull();
+  });
+
+  it('expires device credentials after DEVICE_CREDENTIAL_TTL_SECONDS', async () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    vi.stubEnv('DEVICE_CREDENTIAL_TTL_SECONDS', '60');
+    const { deviceCredential, expiresAt } = issueDeviceCredential('alice-ipad');
+    expect(expiresAt).toBe(Date.now() + 60_000);
+
+    vi.advanceTimersByTime(59_000);
+    expect(await verifyToken(deviceCredential, 'device')).not.toBeNull();
+    vi.advanceTimersByTime(1_000);
+    expect(await verifyToken(deviceCredential, 'device')).toBeNull();
+  });
+
+  it('rejects the credential of a device listed in REVOKED_DEVICES', async () => {
+    const lost = issueDeviceCredential('alice-ipad');
+    const other = issueDeviceCredential('alice-ipad');
+    vi.stubEnv('REVOKED_DEVICES', `${lost.deviceId}, some-other-device`);
+
+    expect(await verifyToken(lost.deviceCredential, 'device')).toBeNull();
+    expect(await verifyToken(other.deviceCredential, 'device')).not.toBeNull();
+  });
+
+  describe('REVOKED_DEVICES_FILE', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'revoked-devices-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('picks up changes to the file without a restart', async () => {
+      const path = join(dir, 'revoked.txt');
+      const { deviceId, deviceCredential } = issueDeviceCredential('alice-ipad');
+      await writeFile(path, '# nobody yet\n');
+      vi.stubEnv('REVOKED_DEVICES_FILE', path);
+      expect(await verifyToken(deviceCredential, 'device')).not.toBeNull();
+
+      await writeFile(path, `# lost on the train\n${deviceId}\n`);
+      // Make sure the modification time moves even on coarse file systems
+      await utimes(path, new Date(), new Date(Date.now() + 1_000));
+      expect(await verifyToken(deviceCredential, 'device')).toBeNull();
+    });
+  });
+});
+
+describe('parseRevokedDevices', () => {
+  it('reads ids separated by commas, whitespace and lines, ignoring comments', () => {
+    expect(parseRevokedDevices('a, b\n# c\nd # e\n\n')).toEqual(new Set(['a', 'b', 'd']));
+  });
+});
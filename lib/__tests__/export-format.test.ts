@@ -0,0 +1,165 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { DrawingStroke } from '../../capacitor-canvas-plugin/src/definitions';
+import {
+  dataUrlByteLength,
+  encodeWithinBudget,
+  exportSteps,
+  mediaTypeForFormat,
+  mediaTypeOfDataUrl,
+  renderStrokesToSvg,
+  resolveExportSettings,
+  svgToDataUrl,
+  type ExportStep,
+} from '../../capacitor-canvas-plugin/src/export-format';
+
+function stroke(points: Array<[x: number, y: number]>): DrawingStroke {
+  return {
+    tool: 'pen',
+    color: '#000000',
+    width: 2,
+    timestamp: 0,
+    points: points.map(([x, y]) => ({ x, y, pressure: 0.5, timeOffset: 0 })),
+  };
+}
+
+// A PNG data URL whose payload is `bytes` long
+function dataUrlOf(bytes: number): string {
+  return `data:image/png;base64,${'A'.repeat(Math.ceil(bytes / 3) * 4)}`;
+}
+
+describe('media types', () => {
+  it.each([
+    ['png', 'image/png'],
+    ['jpeg', 'image/jpeg'],
+    ['webp', 'image/webp'],
+    ['svg', 'image/svg+xml'],
+  ] as const)('maps %s to %s', (format, mediaType) => {
+    expect(mediaTypeForFormat(format)).toBe(mediaType);
+  });
+
+  it('reads what the encoder actually produced', () => {
+    // Safari encodes a requested WebP as PNG
+    expect(mediaTypeOfDataUrl('data:image/png;base64,AAAA')).toBe('image/png');
+    expect(mediaTypeOfDataUrl('not a data url')).toBe('application/octet-stream');
+  });
+});
+
+describe('dataUrlByteLength', () => {
+  it('measures base64 and percent-encoded payloads', () => {
+    expect(dataUrlByteLength(`data:image/png;base64,${btoa('hello')}`)).toBe(5);
+    expect(dataUrlByteLength('data:image/svg+xml,%3Csvg%3E%C3%A9')).toBe(7);
+  });
+});
+
+describe('resolveExportSettings', () => {
+  it('applies the defaults', () => {
+    expect(resolveExportSettings()).toEqual({ format: 'png', quality: 0.92, maxDimension: 3200, maxBytes: null });
+  });
+
+  it('clamps quality and ignores sizes that are not positive', () => {
+    expect(resolveExportSettings({ exportFormat: 'jpeg', quality: 2, maxDimension: 0, maxBytes: -1 })).toEqual({
+      format: 'jpeg',
+      quality: 1,
+      maxDimension: 3200,
+      maxBytes: null,
+    });
+  });
+});
+
+describe('exportSteps', () => {
+  const settings = (format: 'png' | 'jpeg' | 'webp' | 'svg', quality = 0.92) =>
+    resolveExportSettings({ exportFormat: format, quality, maxBytes: 1000 });
+
+  it('tries only the requested settings without a byte budget', () => {
+    expect(exportSteps(resolveExportSettings({ exportFormat: 'jpeg' }))).toEqual([
+      { dimensionScale: 1, quality: 0.92, precision: 2 },
+    ]);
+  });
+
+  it('shrinks PNG dimensions', () => {
+    expect(exportSteps(settings('png')).map((step) => step.dimensionScale)).toEqual([1, 0.75, 0.5, 0.35, 0.25]);
+  });
+
+  it.each(['jpeg', 'webp'] as const)('lowers %s quality before dimensions', (format) => {
+    expect(exportSteps(settings(format)).map(({ dimensionScale, quality }) => [dimensionScale, quality])).toEqual([
+      [1, 0.92],
+      [1, 0.8],
+      [1, 0.7],
+      [1, 0.6],
+      [1, 0.5],
+      [0.75, 0.5],
+      [0.5, 0.5],
+      [0.35, 0.5],
+      [0.25, 0.5],
+    ]);
+  });
+
+  it('never raises a quality that was requested below the floor', () => {
+    expect(exportSteps(settings('jpeg', 0.3)).every((step) => step.quality === 0.3)).toBe(true);
+  });
+
+  it('drops SVG coordinate precision', () => {
+    expect(exportSteps(settings('svg')).map((step) => step.precision)).toEqual([2, 1, 0]);
+  });
+});
+
+describe('encodeWithinBudget', () => {
+  // Encoded size falls with the square of the dimension scale
+  const encodePng = vi.fn((step: ExportStep) => dataUrlOf(3000 * step.dimensionScale ** 2));
+
+  it('keeps the first attempt without a byte budget', () => {
+    encodePng.mockClear();
+    expect(encodeWithinBudget(resolveExportSettings(), encodePng)).toBe(dataUrlOf(3000));
+    expect(encodePng).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops at the first attempt that fits', () => {
+    encodePng.mockClear();
+    const image = encodeWithinBudget(resolveExportSettings({ maxBytes: 1000 }), encodePng);
+    expect(image).toBe(dataUrlOf(750));
+    expect(encodePng).toHaveBeenCalledTimes(3);
+  });
+
+  it('falls back to the smallest attempt when none fits', () => {
+    encodePng.mockClear();
+    const image = encodeWithinBudget(resolveExportSettings({ maxBytes: 10 }), encodePng);
+    expect(image).toBe(dataUrlOf(3000 * 0.25 ** 2));
+    expect(encodePng).toHaveBeenCalledTimes(5);
+  });
+
+  it('keeps what it has when the encoder gives up', () => {
+    const settings = resolveExportSettings({ maxBytes: 10 });
+    expect(encodeWithinBudget(settings, () => null)).toBeNull();
+    expect(encodeWithinBudget(settings, (step) => (step.dimensionScale === 1 ? dataUrlOf(3000) : null))).toBe(
+      dataUrlOf(3000),
+    );
+  });
+});
+
+describe('renderStrokesToSvg', () => {
+  const region = { x: 10, y: 20, width: 100, height: 50 };
+
+  it('draws strokes relative to the region on a white background', () => {
+    const svg = renderStrokesToSvg([stroke([[15, 25]])], region, 2, 2, () => 3);
+    expect(svg).toContain('width="200" height="100" viewBox="0 0 200 100"');
+    expect(svg).toContain('<rect width="100%" height="100%" fill="#ffffff"/>');
+    // A single point still gets a segment so the round cap shows
+    expect(svg).toContain('<path d="M10 10L10 10" stroke="#000000" stroke-width="6"/>');
+  });
+
+  it('rounds coordinates to the requested precision', () => {
+    const points: Array<[number, number]> = [
+      [10.456, 20],
+      [20, 30.04],
+    ];
+    expect(renderStrokesToSvg([stroke(points)], region, 1, 1, () => 1)).toContain('d="M0.5 0L10 10"');
+    expect(renderStrokesToSvg([stroke(points)], region, 1, 0, () => 1)).toContain('d="M0 0L10 10"');
+  });
+
+  it('round-trips through a data URL', () => {
+    const svg = renderStrokesToSvg([stroke([[15, 25]])], region, 1, 2, () => 1);
+    const dataUrl = svgToDataUrl(svg);
+    expect(mediaTypeOfDataUrl(dataUrl)).toBe('image/svg+xml');
+    expect(Buffer.from(dataUrl.split(',')[1], 'base64').toString('utf8')).toBe(svg);
+  });
+});
@@ -0,0 +1,67 @@
+import type { UIMessage } from 'ai';
+import { describe, expect, it } from 'vitest';
+import type { ChatMessageMetadata } from '../chat-message';
+import { compactHistory, UNSEEN_DRAWING_PLACEHOLDER, UNTRANSCRIBED_DRAWING_PLACEHOLDER } from '../history-compaction';
+
+type Message = UIMessage<ChatMessageMetadata>;
+
+function drawing(id: string, metadata?: ChatMessageMetadata): Message {
+  return {
+    id,
+    role: 'user',
+    metadata,
+    parts: [
+      { type: 'file', mediaType: 'image/png', filename: 'canvas-drawing.png', url: 'data:image/png;base64,AA==' },
+    ],
+  };
+}
+
+function reply(id: string): Message {
+  return { id, role: 'assistant', parts: [{ type: 'text', text: 'Noted.' }] };
+}
+
+function partTypes(messages: Message[]): string[] {
+  return messages.flatMap((message) => message.parts.map((part) => (part.type === 'text' ? part.text : part.type)));
+}
+
+describe('compactHistory', () => {
+  it('keeps the most recent drawings and replaces older ones', () => {
+    const messages = [
+      drawing('1', { transcriptions: { '0': '2 + 2' } }),
+      reply('2'),
+      drawing('3'),
+      reply('4'),
+      drawing('5'),
+    ];
+    expect(partTypes(compactHistory(messages, 1))).toEqual([
+      '[Earlier handwritten message, transcribed]\n2 + 2',
+      'Noted.',
+      UNTRANSCRIBED_DRAWING_PLACEHOLDER,
+      'Noted.',
+      'file',
+    ]);
+  });
+
+  it('returns the same messages when nothing needs replacing', () => {
+    const messages = [drawing('1'), reply('2')];
+    expect(compactHistory(messages, 4)).toBe(messages);
+  });
+
+  it('counts the current turn towards the limit without calling it earlier', () => {
+    const messages = [drawing('1'), reply('2'), drawing('3')];
+    expect(partTypes(compactHistory(messages, 1, { includesCurrentTurn: true }))).toEqual([
+      UNTRANSCRIBED_DRAWING_PLACEHOLDER,
+      'Noted.',
+      'file',
+    ]);
+  });
+
+  it('tells a model without images that it cannot see the current drawing', () => {
+    const messages = [drawing('1'), reply('2'), drawing('3')];
+    expect(partTypes(compactHistory(messages, 0, { includesCurrentTurn: true }))).toEqual([
+      UNTRANSCRIBED_DRAWING_PLACEHOLDER,
+      'Noted.',
+      UNSEEN_DRAWING_PLACEHOLDER,
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addPaddingToBoundingBox,
+  calculateBoundingBox,
+  calculateExportRegion,
+  clipPaddedBoxToCanvasBounds,
+  exportPixelSize,
+  scaleIfNeeded,
+} from '../../capacitor-canvas-plugin/src/ink-export';
+
+const canvas = { x: 0, y: 0, width: 1000, height: 1000 };
+
+describe('calculateBoundingBox', () => {
+  it('covers every point of every stroke', () => {
+    const strokes = [
+      {
+        points: [
+          { x: 10, y: 20 },
+          { x: 30, y: 5 },
+        ],
+      },
+      { points: [{ x: 50, y: 40 }] },
+    ];
+    expect(calculateBoundingBox(strokes)).toEqual({ x: 10, y: 5, width: 40, height: 35 });
+  });
+
+  it('is empty without strokes', () => {
+    expect(calculateBoundingBox([])).toEqual({ x: 0, y: 0, width: 0, height: 0 });
+  });
+});
+
+describe('addPaddingToBoundingBox', () => {
+  it('pads every side', () => {
+    expect(addPaddingToBoundingBox({ x: 10, y: 5, width: 40, height: 35 })).toEqual({
+      x: -22,
+      y: -27,
+      width: 104,
+      height: 99,
+    });
+  });
+
+  it('gives a single point a square of twice the padding', () => {
+    expect(addPaddingToBoundingBox({ x: 5, y: 5, width: 0, height: 0 }, 10)).toEqual({
+      x: -5,
+      y: -5,
+      width: 20,
+      height: 20,
+    });
+  });
+});
+
+describe('clipPaddedBoxToCanvasBounds', () => {
+  it('clips padding that runs off the canvas', () => {
+    expect(clipPaddedBoxToCanvasBounds({ x: -22, y: -27, width: 104, height: 99 }, canvas)).toEqual({
+      x: 0,
+      y: 0,
+      width: 82,
+      height: 72,
+    });
+  });
+
+  it('falls back to the whole canvas when the box lies outside it', () => {
+    expect(clipPaddedBoxToCanvasBounds({ x: 2000, y: 2000, width: 10, height: 10 }, canvas)).toEqual(canvas);
+  });
+});
+
+describe('scaleIfNeeded', () => {
+  it('keeps boxes within the maximum dimension', () => {
+    expect(scaleIfNeeded({ x: 0, y: 0, width: 100, height: 50 })).toMatchObject({
+      scale: 1,
+      size: { width: 100, height: 50 },
+    });
+  });
+
+  it('scales the longest side down to the maximum dimension', () => {
+    expect(scaleIfNeeded({ x: 0, y: 0, width: 6400, height: 1600 })).toMatchObject({
+      scale: 0.5,
+      size: { width: 3200, height: 800 },
+    });
+  });
+});
+
+describe('calculateExportRegion', () => {
+  it('pads, clips and scales the ink', () => {
+    const region = calculateExportRegion([{ points: [{ x: 500, y: 500 }] }], canvas, { maxDimension: 32 });
+    expect(region.clippedBox).toEqual({ x: 468, y: 468, width: 64, height: 64 });
+    expect(region.scaling).toMatchObject({ scale: 0.5, size: { width: 32, height: 32 } });
+  });
+});
+
+describe('exportPixelSize', () => {
+  it('rounds up to whole pixels, at least one', () => {
+    const scaling = scaleIfNeeded({ x: 0, y: 0, width: 10.2, height: 0.1 });
+    expect(exportPixelSize(scaling)).toEqual({ width: 11, height: 1 });
+  });
+});
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ChatUIMessage } from '../chat-message';
+import { LocalConversationStore } from '../local-conversation-store';
+
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+
+function drawing(id: string): ChatUIMessage {
+  return {
+    id,
+    role: 'user',
+    parts: [{ type: 'file', mediaType: 'image/png', filename: 'canvas-drawing.png', url: PNG }],
+  };
+}
+
+function reply(id: string, text: string): ChatUIMessage {
+  return { id, role: 'assistant', parts: [{ type: 'text', text }] };
+}
+
+// Without IndexedDB (as in Node) the store keeps everything in memory
+describe('LocalConversationStore', () => {
+  let store: LocalConversationStore;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(globalThis, 'fetch');
+    store = new LocalConversationStore();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('only encodes the images of new or changed messages', async () => {
+    await store.save('c1', [drawing('m1'), reply('m2', 'Hello')]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    // A streamed reply and a new drawing leave the first drawing alone
+    await store.save('c1', [drawing('m1'), reply('m2', 'Hello there'), drawing('m3')]);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(await store.getImageBlob('c1/m1/0')).not.toBeNull();
+    expect(await store.getImageBlob('c1/m3/0')).not.toBeNull();
+  });
+
+  it('drops the images of removed messages', async () => {
+    await store.save('c1', [drawing('m1'), reply('m2', 'Hello'), drawing('m3')]);
+    await store.save('c1', [drawing('m1'), reply('m2', 'Hello')]);
+
+    expect(await store.getImageBlob('c1/m3/0')).toBeNull();
+    expect(await store.getSummary('c1')).toMatchObject({ messageCount: 2, thumbnailImageId: 'c1/m1/0' });
+  });
+
+  it('lists conversations with their sidebar fields', async () => {
+    await store.save('c1', [reply('m1', 'Fractions')]);
+    await store.setPinned('c1', true);
+
+    expect(await store.list()).toEqual([
+      expect.objectContaining({ id: 'c1', pinned: true, titleEdited: false, searchText: 'fractions' }),
+    ]);
+  });
+
+  it('deletes a conversation with its messages and images', async () => {
+    await store.save('c1', [drawing('m1')]);
+    await store.save('c2', [drawing('m1')]);
+    await store.delete('c1');
+
+    expect(await store.load('c1')).toBeNull();
+    expect(await store.getImageBlob('c1/m1/0')).toBeNull();
+    expect(await store.getImageBlob('c2/m1/0')).not.toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProviderConfigError, readProviderConfigs } from '../providers';
+
+const local = {
+  name: 'local',
+  baseURL: 'http://localhost:11434/v1',
+  apiKeyEnv: 'LOCAL_API_KEY',
+  models: [{ id: 'llava', label: 'LLaVA', supportsVision: true, contextWindow: 32768 }],
+};
+
+describe('readProviderConfigs', () => {
+  it('falls back to the default gateway when unset', () => {
+    expect(readProviderConfigs('').map((config) => config.name)).toEqual(['devboost']);
+  });
+
+  it('parses a provider list and fills in model defaults', () => {
+    const [config] = readProviderConfigs(JSON.stringify([local]));
+    expect(config).toMatchObject({ name: 'local', baseURL: 'http://localhost:11434/v1' });
+    expect(config.models[0]).toMatchObject({ id: 'llava', vendor: 'openai', supportsVision: true });
+  });
+
+  it.each([
+    ['invalid JSON', '[{', 'AI_PROVIDERS must be a JSON array of providers'],
+    ['an empty list', '[]', 'Invalid AI_PROVIDERS'],
+    ['a bad base URL', JSON.stringify([{ ...local, baseURL: 'localhost' }]), 'Invalid AI_PROVIDERS'],
+    [
+      'a model without a context window',
+      JSON.stringify([{ ...local, models: [{ id: 'x', label: 'X' }] }]),
+      'Invalid AI_PROVIDERS',
+    ],
+    ['duplicate names', JSON.stringify([local, local]), 'duplicate or reserved provider name "local"'],
+    [
+      'the reserved mock name',
+      JSON.stringify([{ ...local, name: 'mock' }]),
+      'duplicate or reserved provider name "mock"',
+    ],
+  ])('rejects %s', (_, value, message) => {
+    expect(() => readProviderConfigs(value)).toThrow(ProviderConfigError);
+    expect(() => readProviderConfigs(value)).toThrow(message);
+  });
+});
+
+describe('getProviderConfigError', () => {
+  beforeEach(() => {
+    // The registry is cached per module instance
+    vi.resetModules();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('is null for a valid configuration', async () => {
+    vi.stubEnv('AI_PROVIDERS', JSON.stringify([local]));
+    const { getAvailableModels, getProviderConfigError } = await import('../providers');
+    expect(getProviderConfigError()).toBeNull();
+    expect(getAvailableModels().map((model) => model.id)).toContain('llava');
+  });
+
+  it('reports an invalid configuration once and keeps returning it', async () => {
+    vi.stubEnv('AI_PROVIDERS', 'not json');
+    const { getAvailableModels, getProviderConfigError, ProviderConfigError } = await import('../providers');
+    const error = getProviderConfigError();
+    expect(error).toBeInstanceOf(ProviderConfigError);
+    expect(getProviderConfigError()).toBe(error);
+    expect(() => getAvailableModels()).toThrow(error!);
+    expect(console.error).toHaveBeenCalledTimes(1);
+  });
+});
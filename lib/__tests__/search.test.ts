@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { UIMessageStreamWriter } from 'ai';
+import { createFixtureSearchAdapter, createWebSearchTool, type SearchAdapter } from '../search';
+
+const fixtures = [
+  {
+    title: 'Apple Pencil',
+    url: 'https://example.com/pencil',
+    snippet: 'Pair and charge Apple Pencil.',
+    keywords: ['apple', 'pencil', 'stylus'],
+  },
+  {
+    title: 'PencilKit',
+    url: 'https://example.com/pencilkit',
+    snippet: 'Capture Apple Pencil input as a drawing.',
+    keywords: ['pencilkit', 'drawing', 'canvas'],
+  },
+  {
+    title: 'Kites',
+    url: 'https://example.com/kites',
+    snippet: 'How to fly a kite.',
+    keywords: ['kite', 'wind'],
+  },
+];
+
+describe('createFixtureSearchAdapter', () => {
+  const adapter = createFixtureSearchAdapter(fixtures);
+
+  it('ranks fixtures by the number of matching query words', async () => {
+    const results = await adapter.search('apple pencil drawing canvas', { maxResults: 5 });
+    expect(results.map((result) => result.url)).toEqual(['https://example.com/pencilkit', 'https://example.com/pencil']);
+  });
+
+  it('returns at most maxResults results', async () => {
+    const results = await adapter.search('apple pencil', { maxResults: 1 });
+    expect(results).toHaveLength(1);
+  });
+
+  it('returns nothing when no word matches', async () => {
+    expect(await adapter.search('quantum chromodynamics', { maxResults: 5 })).toEqual([]);
+  });
+});
+
+describe('getSearchAdapter', () => {
+  beforeEach(() => {
+    // The adapter is cached per module instance
+    vi.resetModules();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  async function loadAdapter(): Promise<SearchAdapter | null> {
+    const { getSearchAdapter } = await import('../search');
+    return getSearchAdapter();
+  }
+
+  it('is null when SEARCH_ADAPTER is unset', async () => {
+    vi.stubEnv('SEARCH_ADAPTER', '');
+    expect(await loadAdapter()).toBeNull();
+  });
+
+  it('searches the bundled fixtures with SEARCH_ADAPTER=fixture', async () => {
+    vi.stubEnv('SEARCH_ADAPTER', 'fixture');
+    vi.stubEnv('SEARCH_FIXTURES_PATH', '');
+    const adapter = await loadAdapter();
+    expect(adapter?.name).toBe('fixture');
+    const results = await adapter!.search('pencilkit', { maxResults: 5 });
+    expect(results[0].url).toBe('https://developer.apple.com/documentation/pencilkit');
+  });
+
+  it.each([
+    ['an unknown adapter', { SEARCH_ADAPTER: 'bing' }],
+    ['brave without an API key', { SEARCH_ADAPTER: 'brave', BRAVE_SEARCH_API_KEY: '' }],
+    ['a missing fixtures file', { SEARCH_ADAPTER: 'fixture', SEARCH_FIXTURES_PATH: '/nonexistent/fixtures.json' }],
+  ])('is null and warns for %s', async (_, env) => {
+    for (const [name, value] of Object.entries(env)) {
+      vi.stubEnv(name, value);
+    }
+    const { getSearchAdapter } = await import('../search');
+    expect(await getSearchAdapter()).toBeNull();
+    // Later requests get the cached null instead of an error
+    expect(await getSearchAdapter()).toBeNull();
+    expect(console.warn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('createWebSearchTool', () => {
+  it('writes each result as a source part', async () => {
+    const write = vi.fn();
+    const writer = { write, merge: vi.fn(), onError: undefined } as unknown as UIMessageStreamWriter;
+    const webSearch = createWebSearchTool(createFixtureSearchAdapter(fixtures), writer);
+
+    const results = await webSearch.execute!({ query: 'kite' }, { toolCallId: 'call-1', messages: [] });
+
+    expect(results).toEqual([{ title: 'Kites', url: 'https://example.com/kites', snippet: 'How to fly a kite.' }]);
+    expect(write).toHaveBeenCalledWith({
+      type: 'source-url',
+      sourceId: 'call-1-0',
+      url: 'https://example.com/kites',
+      title: 'Kites',
+    });
+  });
+});
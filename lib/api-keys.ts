@@ -0,0 +1,167 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { readFile, stat } from 'node:fs/promises';
+import { z } from 'zod';
+
+/**
+ * Named API keys, so each device or tester has its own key that can be
+ * rotated or revoked without touching anyone else's.
+ *
+ * Keys come from, in order:
+ * - `API_KEYS_FILE`: path to a JSON key file, re-read whenever it changes, so
+ *   revocations take effect without a restart
+ * - `API_KEYS`: the same JSON inline
+ * - `API_SECRET_KEY`: a single legacy key named "default"
+ *
+ * Key file format:
+ *
+ *   { "keys": [
+ *     { "name": "alice-ipad", "sha256": "<hex digest of the key>" },
+ *     { "name": "ci", "key": "<plain key>", "expiresAt": "2026-12-31T00:00:00Z" },
+ *     { "name": "old-tester", "sha256": "<hex>", "revoked": true }
+ *   ] }
+ */
+
+const keyEntrySchema = z
+  .object({
+    name: z.string().min(1),
+    key: z.string().min(1).optional(),
+    sha256: z
+      .string()
+      .regex(/^[0-9a-f]{64}$/i, 'must be a hex SHA-256 digest')
+      .optional(),
+    revoked: z.boolean().default(false),
+    expiresAt: z.iso.datetime({ offset: true }).optional(),
+  })
+  .refine((entry) => (entry.key === undefined) !== (entry.sha256 === undefined), {
+    message: 'each key needs exactly one of "key" or "sha256"',
+  });
+
+const keyFileSchema = z.object({
+  keys: z.array(keyEntrySchema),
+});
+
+interface StoredKey {
+  name: string;
+  digest: Buffer;
+  revoked: boolean;
+  expiresAt: number | undefined;
+}
+
+interface CachedKeyFile {
+  path: string;
+  mtimeMs: number;
+  keys: StoredKey[];
+}
+
+let cachedFile: CachedKeyFile | null = null;
+let cachedInline: { source: string; keys: StoredKey[] } | null = null;
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value, 'utf8').digest();
+}
+
+/**
+ * Parses a key file
+ * @throws Error if the JSON or any entry is invalid
+ */
+export function parseKeyFile(source: string): StoredKey[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(source);
+  } catch {
+    throw new Error('API key file is not valid JSON');
+  }
+
+  const result = keyFileSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(`Invalid API key file: ${z.prettifyError(result.error)}`);
+  }
+
+  return result.data.keys.map((entry) => ({
+    name: entry.name,
+    digest: entry.sha256 ? Buffer.from(entry.sha256, 'hex') : digest(entry.key!),
+    revoked: entry.revoked,
+    expiresAt: entry.expiresAt ? Date.parse(entry.expiresAt) : undefined,
+  }));
+}
+
+async function loadFileKeys(path: string): Promise<StoredKey[]> {
+  try {
+    const { mtimeMs } = await stat(path);
+    if (cachedFile?.path !== path || cachedFile.mtimeMs !== mtimeMs) {
+      cachedFile = { path, mtimeMs, keys: parseKeyFile(await readFile(path, 'utf8')) };
+    }
+  } catch (error) {
+    // Keep serving the last good file (if any) rather than locking everyone out
+    console.error('[api-keys] Failed to load API_KEYS_FILE:', error);
+    if (cachedFile?.path !== path) {
+      return [];
+    }
+  }
+  return cachedFile.keys;
+}
+
+function loadInlineKeys(source: string): StoredKey[] {
+  if (cachedInline?.source !== source) {
+    try {
+      cachedInline = { source, keys: parseKeyFile(source) };
+    } catch (error) {
+      console.error('[api-keys] Failed to parse API_KEYS:', error);
+      cachedInline = { source, keys: [] };
+    }
+  }
+  return cachedInline.keys;
+}
+
+async function loadKeys(): Promise<StoredKey[]> {
+  const keys: StoredKey[] = [];
+  if (process.env.API_KEYS_FILE) {
+    keys.push(...(await loadFileKeys(process.env.API_KEYS_FILE)));
+  }
+  if (process.env.API_KEYS) {
+    keys.push(...loadInlineKeys(process.env.API_KEYS));
+  }
+  if (process.env.API_SECRET_KEY) {
+    keys.push({ name: 'default', digest: digest(process.env.API_SECRET_KEY), revoked: false, expiresAt: undefined });
+  }
+  return keys;
+}
+
+/**
+ * Looks up the name of a presented API key
+ *
+ * Every stored key is compared in constant time, whether or not an earlier
+ * one matched, so timing reveals neither the key nor which entry it hit.
+ *
+ * @returns the key's name, or null if it is unknown, revoked or expired
+ */
+export async function verifyApiKey(presentedKey: string | null): Promise<string | null> {
+  if (!presentedKey) {
+    return null;
+  }
+
+  const presented = digest(presentedKey);
+  const now = Date.now();
+  let match: StoredKey | null = null;
+
+  for (const key of await loadKeys()) {
+    if (timingSafeEqual(presented, key.digest) && match === null) {
+      match = key;
+    }
+  }
+
+  return match && isUsable(match, now) ? match.name : null;
+}
+
+/**
+ * Whether a key with this name exists and is neither revoked nor expired,
+ * e.g. for devices that enrolled with it
+ */
+export async function isApiKeyNameActive(name: string): Promise<boolean> {
+  const now = Date.now();
+  return (await loadKeys()).some((key) => key.name === name && isUsable(key, now));
+}
+
+function isUsable(key: StoredKey, now: number): boolean {
+  return !key.revoked && (key.expiresAt === undefined || key.expiresAt > now);
+}
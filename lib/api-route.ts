@@ -0,0 +1,97 @@
+// Helpers shared by the route handlers in app/api
+import { isApiKeyNameActive, verifyApiKey } from './api-keys';
+import { verifyToken } from './device-tokens';
+
+// CORS headers for production
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-api-key',
+  // Lets cross-origin clients read how long to back off after a 429
+  'Access-Control-Expose-Headers': 'Retry-After',
+  'Access-Control-Max-Age': '86400',
+};
+
+/**
+ * Who is making a request, passed to handlers for logging and quotas
+ */
+export interface RequestContext {
+  /**
+   * Name of the API key the request authenticated with (for device tokens,
+   * the key the device enrolled with)
+   */
+  keyName: string;
+
+  /**
+   * Enrolled device, when the request used a device access token
+   */
+  deviceId?: string;
+}
+
+/**
+ * Authenticates a request by a device access token (`Authorization: Bearer`),
+ * whose enrollment key must still be active, or by its `x-api-key` header
+ * against the key store
+ * @param request - The incoming HTTP request
+ * @returns the request context, or null if the credentials are missing or invalid
+ */
+export async function authenticateRequest(request: Request): Promise<RequestContext | null> {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    const claims = await verifyToken(authorization.slice('Bearer '.length).trim(), 'access');
+    // The enrollment key must still be configured, so removing or revoking it
+    // locks its devices out at once rather than when their tokens expire
+    if (!claims || !(await isApiKeyNameActive(claims.key))) {
+      return null;
+    }
+    return { keyName: claims.key, deviceId: claims.sub };
+  }
+
+  const keyName = await verifyApiKey(request.headers.get('x-api-key'));
+  return keyName ? { keyName } : null;
+}
+
+/**
+ * Logs a line tagged with the request's key name
+ */
+export function logRequest(context: RequestContext, message: string): void {
+  const device = context.deviceId ? ` device=${context.deviceId}` : '';
+  console.log(`[api] key=${context.keyName}${device} ${message}`);
+}
+
+/**
+ * Creates a JSON response with CORS headers
+ * @param body - Value to serialize
+ * @param status - HTTP status code
+ * @param headers - Additional headers
+ */
+export function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...corsHeaders,
+      ...headers,
+    },
+  });
+}
+
+/**
+ * Response for preflight OPTIONS requests
+ */
+export function preflightResponse(): Response {
+  return new Response(null, {
+    status: 204,
+    headers: corsHeaders,
+  });
+}
+
+/**
+ * Adds CORS headers to a response created elsewhere (e.g. a stream response)
+ */
+export function withCorsHeaders(response: Response): Response {
+  Object.entries(corsHeaders).forEach(([key, value]) => {
+    response.headers.set(key, value);
+  });
+  return response;
+}
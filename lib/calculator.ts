@@ -0,0 +1,392 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+
+/**
+ * Exact arithmetic and unit conversion behind the `calculate` and
+ * `convertUnits` tools.
+ *
+ * Numbers are kept as fractions of big integers, so `0.1 + 0.2` is exactly
+ * `3/10` and `1/3 * 3` is exactly `1`; models are poor at long arithmetic and
+ * floating point would hand them rounding errors to explain away.
+ */
+
+export class CalculatorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalculatorError';
+  }
+}
+
+interface Fraction {
+  numerator: bigint;
+  // Always positive, and coprime with the numerator
+  denominator: bigint;
+}
+
+// Results beyond this many bits are refused rather than computed, so a
+// request like 9^9^9 cannot tie up the server
+const MAX_RESULT_BITS = 4_096;
+const MAX_EXPRESSION_LENGTH = 500;
+const DECIMAL_PLACES = 20;
+
+// BigInt literals need ES2020; the app targets ES2017
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const TEN = BigInt(10);
+
+// MARK: - Fractions
+
+function gcd(a: bigint, b: bigint): bigint {
+  a = a < ZERO ? -a : a;
+  b = b < ZERO ? -b : b;
+  while (b !== ZERO) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+function bitLength(value: bigint): number {
+  return (value < ZERO ? -value : value).toString(2).length;
+}
+
+function fraction(numerator: bigint, denominator = ONE): Fraction {
+  if (denominator === ZERO) {
+    throw new CalculatorError('Division by zero');
+  }
+  if (denominator < ZERO) {
+    numerator = -numerator;
+    denominator = -denominator;
+  }
+  const divisor = gcd(numerator, denominator) || ONE;
+  const result = { numerator: numerator / divisor, denominator: denominator / divisor };
+  if (bitLength(result.numerator) > MAX_RESULT_BITS || bitLength(result.denominator) > MAX_RESULT_BITS) {
+    throw new CalculatorError('Result is too large');
+  }
+  return result;
+}
+
+const add = (a: Fraction, b: Fraction) =>
+  fraction(a.numerator * b.denominator + b.numerator * a.denominator, a.denominator * b.denominator);
+const subtract = (a: Fraction, b: Fraction) => add(a, { numerator: -b.numerator, denominator: b.denominator });
+const multiply = (a: Fraction, b: Fraction) => fraction(a.numerator * b.numerator, a.denominator * b.denominator);
+const divide = (a: Fraction, b: Fraction) => fraction(a.numerator * b.denominator, a.denominator * b.numerator);
+
+function power(base: Fraction, exponent: Fraction): Fraction {
+  if (exponent.denominator !== ONE) {
+    throw new CalculatorError('Exponents must be whole numbers');
+  }
+  const magnitude = exponent.numerator < ZERO ? -exponent.numerator : exponent.numerator;
+  // Cheap bound before the exact check in fraction()
+  const baseBits = Math.max(bitLength(base.numerator), bitLength(base.denominator));
+  if (baseBits > 1 && BigInt(baseBits - 1) * magnitude > BigInt(MAX_RESULT_BITS)) {
+    throw new CalculatorError('Result is too large');
+  }
+  const raised = fraction(base.numerator ** magnitude, base.denominator ** magnitude);
+  return exponent.numerator < ZERO ? divide(fraction(ONE), raised) : raised;
+}
+
+/**
+ * Parses a decimal such as `-12.5` or `6.02e23` exactly
+ */
+function parseDecimal(text: string): Fraction {
+  const match = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(text.trim());
+  if (!match || (!match[2] && !match[3])) {
+    throw new CalculatorError(`Not a number: ${text}`);
+  }
+  const [, sign, whole, decimals = '', exponentText = '0'] = match;
+  const exponent = Number(exponentText) - decimals.length;
+  if (Math.abs(exponent) > 1_000) {
+    throw new CalculatorError('Result is too large');
+  }
+  const digits = BigInt(`${sign}${whole || '0'}${decimals}`);
+  return exponent >= 0 ? fraction(digits * TEN ** BigInt(exponent)) : fraction(digits, TEN ** BigInt(-exponent));
+}
+
+function formatFraction({ numerator, denominator }: Fraction): string {
+  return denominator === ONE ? numerator.toString() : `${numerator}/${denominator}`;
+}
+
+/**
+ * Decimal form, rounded to `DECIMAL_PLACES` places when it does not terminate
+ */
+function formatDecimal({ numerator, denominator }: Fraction): { decimal: string; exact: boolean } {
+  const negative = numerator < ZERO;
+  const magnitude = negative ? -numerator : numerator;
+  const scale = TEN ** BigInt(DECIMAL_PLACES);
+  const scaled = magnitude * scale;
+  let digits = scaled / denominator;
+  const exact = scaled % denominator === ZERO;
+  // Round half up on the last place
+  if (!exact && (scaled % denominator) * TWO >= denominator) {
+    digits += ONE;
+  }
+
+  const whole = digits / scale;
+  const decimals = (digits % scale).toString().padStart(DECIMAL_PLACES, '0').replace(/0+$/, '');
+  const text = decimals ? `${whole}.${decimals}` : whole.toString();
+  return { decimal: negative && text !== '0' ? `-${text}` : text, exact };
+}
+
+// MARK: - Expressions
+
+/**
+ * Recursive-descent parser for `+ - * / ^`, parentheses and decimals;
+ * `^` binds tightest and is right-associative
+ */
+class ExpressionParser {
+  private readonly tokens: string[];
+  private position = 0;
+
+  constructor(expression: string) {
+    const normalized = expression.replace(/[×·]/g, '*').replace(/[÷]/g, '/').replace(/[−–]/g, '-').replace(/\*\*/g, '^');
+    const tokens = normalized.match(/\d*\.?\d+(?:e[+-]?\d+)?|\d+\.|[-+*/^()]|\S/gi) ?? [];
+    const invalid = tokens.find((token) => !/^(?:[\d.]|[-+*/^()]$)/i.test(token));
+    if (invalid !== undefined) {
+      throw new CalculatorError(`Unexpected "${invalid}"`);
+    }
+    this.tokens = tokens;
+  }
+
+  parse(): Fraction {
+    if (this.tokens.length === 0) {
+      throw new CalculatorError('Empty expression');
+    }
+    const value = this.expression();
+    if (this.position < this.tokens.length) {
+      throw new CalculatorError(`Unexpected "${this.tokens[this.position]}"`);
+    }
+    return value;
+  }
+
+  private peek(): string | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): string {
+    const token = this.tokens[this.position++];
+    if (token === undefined) {
+      throw new CalculatorError('Unexpected end of expression');
+    }
+    return token;
+  }
+
+  private expression(): Fraction {
+    let value = this.term();
+    while (this.peek() === '+' || this.peek() === '-') {
+      value = this.next() === '+' ? add(value, this.term()) : subtract(value, this.term());
+    }
+    return value;
+  }
+
+  private term(): Fraction {
+    let value = this.unary();
+    while (this.peek() === '*' || this.peek() === '/') {
+      value = this.next() === '*' ? multiply(value, this.unary()) : divide(value, this.unary());
+    }
+    return value;
+  }
+
+  private unary(): Fraction {
+    if (this.peek() === '-' || this.peek() === '+') {
+      const negate = this.next() === '-';
+      const value = this.unary();
+      return negate ? fraction(-value.numerator, value.denominator) : value;
+    }
+    return this.power();
+  }
+
+  private power(): Fraction {
+    const base = this.primary();
+    if (this.peek() === '^') {
+      this.next();
+      return power(base, this.unary());
+    }
+    return base;
+  }
+
+  private primary(): Fraction {
+    const token = this.next();
+    if (token === '(') {
+      const value = this.expression();
+      if (this.next() !== ')') {
+        throw new CalculatorError('Missing ")"');
+      }
+      return value;
+    }
+    return parseDecimal(token);
+  }
+}
+
+export interface CalculationResult {
+  /**
+   * Exact result as an integer or a reduced fraction, e.g. `7/12`
+   */
+  result: string;
+  decimal: string;
+
+  /**
+   * Whether `decimal` is exact rather than rounded
+   */
+  exact: boolean;
+}
+
+/**
+ * Evaluates an arithmetic expression exactly
+ * @throws CalculatorError if the expression is invalid or its result too large
+ */
+export function calculate(expression: string): CalculationResult {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new CalculatorError('Expression is too long');
+  }
+  const value = new ExpressionParser(expression).parse();
+  return { result: formatFraction(value), ...formatDecimal(value) };
+}
+
+// MARK: - Units
+
+type Dimension = 'length' | 'mass' | 'volume' | 'area' | 'time' | 'speed' | 'temperature';
+
+interface Unit {
+  dimension: Dimension;
+  // Size in the dimension's base unit (m, kg, l, m², s, m/s, K)
+  factor: Fraction;
+  // Added after scaling, for temperatures
+  offset: Fraction;
+}
+
+// [dimension, size in base units, names...]; US customary volumes
+const UNIT_TABLE: Array<[Dimension, string, ...string[]]> = [
+  ['length', '0.001', 'mm', 'millimeter', 'millimetre'],
+  ['length', '0.01', 'cm', 'centimeter', 'centimetre'],
+  ['length', '1', 'm', 'meter', 'metre'],
+  ['length', '1000', 'km', 'kilometer', 'kilometre'],
+  ['length', '0.0254', 'in', 'inch', 'inches'],
+  ['length', '0.3048', 'ft', 'foot', 'feet'],
+  ['length', '0.9144', 'yd', 'yard'],
+  ['length', '1609.344', 'mi', 'mile'],
+  ['length', '1852', 'nmi', 'nautical mile'],
+  ['mass', '0.000001', 'mg', 'milligram'],
+  ['mass', '0.001', 'g', 'gram'],
+  ['mass', '1', 'kg', 'kilogram'],
+  ['mass', '1000', 't', 'tonne', 'metric ton'],
+  ['mass', '0.028349523125', 'oz', 'ounce'],
+  ['mass', '0.45359237', 'lb', 'lbs', 'pound'],
+  ['mass', '6.35029318', 'st', 'stone'],
+  ['volume', '0.001', 'ml', 'milliliter', 'millilitre'],
+  ['volume', '1', 'l', 'liter', 'litre'],
+  ['volume', '1000', 'm3', 'm³', 'cubic meter', 'cubic metre'],
+  ['volume', '0.00492892159375', 'tsp', 'teaspoon'],
+  ['volume', '0.01478676478125', 'tbsp', 'tablespoon'],
+  ['volume', '0.0295735295625', 'fl oz', 'floz', 'fluid ounce'],
+  ['volume', '0.2365882365', 'cup'],
+  ['volume', '0.473176473', 'pt', 'pint'],
+  ['volume', '0.946352946', 'qt', 'quart'],
+  ['volume', '3.785411784', 'gal', 'gallon'],
+  ['area', '0.0001', 'cm2', 'cm²', 'square centimeter', 'square centimetre'],
+  ['area', '1', 'm2', 'm²', 'square meter', 'square metre'],
+  ['area', '10000', 'ha', 'hectare'],
+  ['area', '1000000', 'km2', 'km²', 'square kilometer', 'square kilometre'],
+  ['area', '0.00064516', 'in2', 'in²', 'square inch', 'square inches'],
+  ['area', '0.09290304', 'ft2', 'ft²', 'square foot', 'square feet'],
+  ['area', '4046.8564224', 'acre'],
+  ['area', '2589988.110336', 'mi2', 'mi²', 'square mile'],
+  ['time', '0.001', 'ms', 'millisecond'],
+  ['time', '1', 's', 'sec', 'second'],
+  ['time', '60', 'min', 'minute'],
+  ['time', '3600', 'h', 'hr', 'hour'],
+  ['time', '86400', 'd', 'day'],
+  ['time', '604800', 'wk', 'week'],
+  ['speed', '1', 'm/s', 'meters per second', 'metres per second'],
+  ['speed', '1000/3600', 'km/h', 'kph', 'kmh'],
+  ['speed', '1609.344/3600', 'mph', 'miles per hour'],
+  ['speed', '1852/3600', 'kn', 'kt', 'knot'],
+  ['speed', '0.3048', 'ft/s', 'feet per second'],
+];
+
+const UNITS = new Map<string, Unit>();
+for (const [dimension, size, ...names] of UNIT_TABLE) {
+  const factor = calculateFraction(size);
+  for (const name of names) {
+    const unit = { dimension, factor, offset: fraction(ZERO) };
+    UNITS.set(name, unit);
+    // Plurals of spelled-out names, e.g. "meters"
+    if (/^[a-z ]{3,}$/.test(name) && !name.endsWith('s')) {
+      UNITS.set(`${name}s`, unit);
+    }
+  }
+}
+const kelvin = { dimension: 'temperature' as const, factor: fraction(ONE), offset: fraction(ZERO) };
+const celsius = { dimension: 'temperature' as const, factor: fraction(ONE), offset: parseDecimal('273.15') };
+const fahrenheit = {
+  dimension: 'temperature' as const,
+  factor: fraction(BigInt(5), BigInt(9)),
+  // (F - 32) × 5/9 + 273.15
+  offset: subtract(parseDecimal('273.15'), fraction(BigInt(160), BigInt(9))),
+};
+const TEMPERATURE_NAMES: Array<[Unit, string[]]> = [
+  [kelvin, ['k', 'kelvin']],
+  [celsius, ['c', '°c', 'celsius', 'centigrade']],
+  [fahrenheit, ['f', '°f', 'fahrenheit']],
+];
+for (const [unit, names] of TEMPERATURE_NAMES) {
+  for (const name of names) {
+    UNITS.set(name, unit);
+  }
+}
+
+function calculateFraction(expression: string): Fraction {
+  return new ExpressionParser(expression).parse();
+}
+
+function findUnit(name: string): Unit {
+  const unit = UNITS.get(name.trim().toLowerCase());
+  if (!unit) {
+    throw new CalculatorError(`Unknown unit: ${name}`);
+  }
+  return unit;
+}
+
+export interface ConversionResult extends CalculationResult {
+  from: string;
+  to: string;
+}
+
+/**
+ * Converts a value between two units of the same dimension exactly
+ * @throws CalculatorError for unknown or incompatible units
+ */
+export function convertUnits(value: string, from: string, to: string): ConversionResult {
+  const source = findUnit(from);
+  const target = findUnit(to);
+  if (source.dimension !== target.dimension) {
+    throw new CalculatorError(`Cannot convert ${source.dimension} (${from}) to ${target.dimension} (${to})`);
+  }
+
+  const base = add(multiply(calculateFraction(value), source.factor), source.offset);
+  const converted = divide(subtract(base, target.offset), target.factor);
+  return { from, to, result: formatFraction(converted), ...formatDecimal(converted) };
+}
+
+// MARK: - Tools
+
+export const calculateTool = tool({
+  description:
+    'Evaluate an arithmetic expression exactly, with + - * / ^ and parentheses. ' +
+    'Use it for any arithmetic instead of working it out yourself. Returns an exact fraction and a decimal.',
+  inputSchema: z.object({
+    expression: z.string().min(1).describe('The expression, e.g. "(3/4 + 2.5) * 12^2"'),
+  }),
+  execute: async ({ expression }) => calculate(expression),
+});
+
+export const convertUnitsTool = tool({
+  description:
+    'Convert a value between units of length, mass, volume (US customary), area, time, speed or temperature, exactly.',
+  inputSchema: z.object({
+    value: z.string().min(1).describe('The value to convert; a number or an arithmetic expression'),
+    from: z.string().min(1).describe('Unit to convert from, e.g. "km", "lb", "°F", "cup"'),
+    to: z.string().min(1).describe('Unit to convert to'),
+  }),
+  execute: async ({ value, from, to }) => convertUnits(value, from, to),
+});
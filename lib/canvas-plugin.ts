@@ -4,5 +4,16 @@ export type {
   CanvasPlugin, 
   OpenCanvasOptions, 
   CanvasResult, 
-  HasContentResult 
+  HasContentResult,
+  DraftOptions,
+  Drawing,
+  DrawingStroke,
+  DrawingPoint,
+  DrawingTool,
+  GetDrawingResult,
+  SetDrawingOptions,
+  DraftInfo,
+  ListDraftsResult,
+  RestoreDraftOptions,
+  SetActiveDraftOptions,
 } from 'capacitor-canvas-plugin';
\ No newline at end of file
@@ -0,0 +1,22 @@
+/**
+ * Text to show for a failed chat request.
+ *
+ * The chat transport throws with the response body as the message, so API
+ * errors (`{ "error", "issues" }` from the API routes) are unpacked into
+ * their message and the first issue, e.g. why an image was rejected.
+ */
+export function describeChatError(error: Error): string {
+  let body: unknown;
+  try {
+    body = JSON.parse(error.message);
+  } catch {
+    return error.message || 'Something went wrong. Please try again.';
+  }
+  if (typeof body !== 'object' || body === null || !('error' in body) || typeof body.error !== 'string') {
+    return error.message;
+  }
+
+  const issues = 'issues' in body && Array.isArray(body.issues) ? body.issues : [];
+  const detail: unknown = issues[0]?.message;
+  return typeof detail === 'string' ? `${body.error}: ${detail}` : body.error;
+}
@@ -0,0 +1,79 @@
+import type { FileUIPart, UIMessage } from 'ai';
+
+/**
+ * Token usage of one response, reported by the chat API
+ */
+export interface ResponseUsage {
+  modelId: string;
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  cachedInputTokens: number;
+  totalTokens: number;
+
+  /**
+   * Milliseconds from the request to the end of the response
+   */
+  latencyMs: number;
+}
+
+/**
+ * Rolling summary that stands in for the oldest turns of a long conversation
+ */
+export interface HistorySummary {
+  text: string;
+
+  /**
+   * Last message the summary covers; it and every message before it are folded
+   */
+  throughMessageId: string;
+}
+
+/**
+ * The user's answer to a tool call that needs approval
+ */
+export interface ToolApproval {
+  approved: boolean;
+
+  /**
+   * Milliseconds since the epoch
+   */
+  decidedAt: number;
+}
+
+/**
+ * Metadata the app keeps on chat messages
+ */
+export interface ChatMessageMetadata {
+  /**
+   * Text read from the message's drawings, keyed by file part index
+   */
+  transcriptions?: Record<string, string>;
+
+  /**
+   * Usage of the response, on assistant messages
+   */
+  usage?: ResponseUsage;
+
+  /**
+   * Summary created for the request this response answers, on assistant messages
+   */
+  summary?: HistorySummary;
+
+  /**
+   * Answers to tool calls that needed approval, keyed by tool call id, on
+   * assistant messages
+   */
+  approvals?: Record<string, ToolApproval>;
+}
+
+export type ChatUIMessage = UIMessage<ChatMessageMetadata>;
+
+/**
+ * Filename prefix for images that came from the canvas rather than the photo picker
+ */
+export const CANVAS_FILENAME_PREFIX = 'canvas-';
+
+export function isCanvasDrawing(part: FileUIPart): boolean {
+  return part.mediaType.startsWith('image/') && Boolean(part.filename?.startsWith(CANVAS_FILENAME_PREFIX));
+}
@@ -0,0 +1,203 @@
+import type { UIMessage } from 'ai';
+import { z } from 'zod';
+import { isValidTimeZone } from './date-math';
+import { getPersona } from './personas';
+
+/**
+ * Validation for `POST /api/chat` bodies.
+ *
+ * The body must match `chatRequestSchema` and stay within limits read from
+ * the environment:
+ *
+ * - `CHAT_MAX_BODY_BYTES`: whole request body (default 20 MB)
+ * - `CHAT_MAX_MESSAGES`: messages in the conversation as sent, after older
+ *   turns are folded into a summary (default 200; the chat route summarises
+ *   before a conversation gets there)
+ * - `CHAT_MAX_FILE_PARTS`: file parts in the new message (default 20); earlier
+ *   ones are bounded by compaction and the body size
+ * - `CHAT_MAX_IMAGE_BYTES`: decoded size of each image (default 5 MB)
+ */
+
+const textPartSchema = z.object({
+  type: z.literal('text'),
+  text: z.string(),
+});
+
+const filePartSchema = z.object({
+  type: z.literal('file'),
+  mediaType: z.string().min(1),
+  filename: z.string().optional(),
+  // Attachments and drawings are inlined by the client; remote URLs would be fetched server-side
+  url: z.string().startsWith('data:', 'File parts must be data URLs'),
+});
+
+type FilePart = z.infer<typeof filePartSchema>;
+
+// Reasoning, sources, tool calls and step markers are produced by the server
+// and echoed back as-is; text and file parts are checked by type so errors
+// point at the offending field
+const partSchema = z.looseObject({ type: z.string() }).superRefine((part, ctx) => {
+  const schema = part.type === 'text' ? textPartSchema : part.type === 'file' ? filePartSchema : null;
+  const result = schema?.safeParse(part);
+  for (const issue of result?.error?.issues ?? []) {
+    ctx.addIssue({ code: 'custom', path: issue.path, message: issue.message });
+  }
+});
+
+/**
+ * A `UIMessage` as sent by the client
+ */
+export const messageSchema = z.object({
+  id: z.string(),
+  role: z.enum(['system', 'user', 'assistant']),
+  metadata: z.unknown().optional(),
+  parts: z.array(partSchema),
+});
+
+export const chatRequestSchema = z.object({
+  // Sent by DefaultChatTransport
+  id: z.string().optional(),
+  trigger: z.enum(['submit-message', 'regenerate-message']).optional(),
+  messageId: z.string().optional(),
+
+  messages: z.array(messageSchema).min(1),
+  model: z.string().min(1).optional(),
+  webSearch: z.boolean().optional(),
+  persona: z
+    .string()
+    .refine((id) => getPersona(id) !== undefined, 'Unknown persona')
+    .optional(),
+  // The user's IANA time zone, for dates relative to today
+  timeZone: z.string().refine(isValidTimeZone, 'Unknown time zone').optional(),
+});
+
+export type ChatRequest = Omit<z.infer<typeof chatRequestSchema>, 'messages'> & { messages: UIMessage[] };
+
+export interface ChatRequestIssue {
+  path: string;
+  message: string;
+}
+
+export type ChatRequestResult =
+  | { success: true; data: ChatRequest }
+  | { success: false; status: 400 | 413; error: string; issues: ChatRequestIssue[] };
+
+export interface ChatRequestLimits {
+  maxBodyBytes: number;
+  maxMessages: number;
+  maxFileParts: number;
+  maxImageBytes: number;
+}
+
+function limitFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name] ?? fallback);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+export function getChatRequestLimits(): ChatRequestLimits {
+  return {
+    maxBodyBytes: limitFromEnv('CHAT_MAX_BODY_BYTES', 20 * 1024 * 1024),
+    maxMessages: limitFromEnv('CHAT_MAX_MESSAGES', 200),
+    maxFileParts: limitFromEnv('CHAT_MAX_FILE_PARTS', 20),
+    maxImageBytes: limitFromEnv('CHAT_MAX_IMAGE_BYTES', 5 * 1024 * 1024),
+  };
+}
+
+/**
+ * Decoded size of a base64 data URL, without decoding it
+ */
+export function dataUrlByteLength(url: string): number {
+  const comma = url.indexOf(',');
+  const data = url.slice(comma + 1);
+  if (!url.slice(0, comma).endsWith(';base64')) {
+    // Percent-encoded bytes count once; close enough for a limit
+    return Buffer.byteLength(data.replace(/%[0-9a-f]{2}/gi, '_'));
+  }
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
+
+/**
+ * Flattens zod issues into the `issues` list of a `400` response
+ */
+export function toIssues(error: z.ZodError): ChatRequestIssue[] {
+  return error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+}
+
+function invalid(
+  error: string,
+  issues: ChatRequestIssue[] = [],
+  status: 400 | 413 = 400,
+): Extract<ChatRequestResult, { success: false }> {
+  return { success: false, status, error, issues };
+}
+
+/**
+ * Reads and validates a chat request body
+ */
+export async function parseChatRequest(
+  req: Request,
+  limits: ChatRequestLimits = getChatRequestLimits(),
+): Promise<ChatRequestResult> {
+  const tooLarge = () => invalid(`Request body exceeds ${limits.maxBodyBytes} bytes`, [], 413);
+
+  // Reject early when the client declares the size, but still check what actually arrives
+  if (Number(req.headers.get('content-length')) > limits.maxBodyBytes) {
+    return tooLarge();
+  }
+  const text = await req.text();
+  if (Buffer.byteLength(text) > limits.maxBodyBytes) {
+    return tooLarge();
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return invalid('Request body must be JSON');
+  }
+
+  const result = chatRequestSchema.safeParse(json);
+  if (!result.success) {
+    return invalid('Invalid request body', toIssues(result.error));
+  }
+
+  const { messages } = result.data;
+  if (messages.length > limits.maxMessages) {
+    return invalid(`Too many messages (limit ${limits.maxMessages})`, [
+      { path: 'messages', message: `Conversation has ${messages.length} messages` },
+    ]);
+  }
+
+  const issues: ChatRequestIssue[] = [];
+  messages.forEach((message, messageIndex) => {
+    message.parts.forEach((part, partIndex) => {
+      if (part.type !== 'file') {
+        return;
+      }
+      const { url, mediaType } = part as FilePart;
+      const bytes = dataUrlByteLength(url);
+      if (mediaType.startsWith('image/') && bytes > limits.maxImageBytes) {
+        issues.push({
+          path: `messages.${messageIndex}.parts.${partIndex}`,
+          message: `Image is ${bytes} bytes (limit ${limits.maxImageBytes})`,
+        });
+      }
+    });
+  });
+
+  // The whole history is resent every turn, so only the new message's files
+  // count; a long conversation must not lock itself out
+  const newMessageIndex = messages.length - 1;
+  const fileParts = messages[newMessageIndex].parts.filter((part) => part.type === 'file').length;
+  if (fileParts > limits.maxFileParts) {
+    return invalid(`Too many files (limit ${limits.maxFileParts})`, [
+      { path: `messages.${newMessageIndex}`, message: `Message has ${fileParts} files` },
+    ]);
+  }
+  if (issues.length > 0) {
+    return invalid('Image too large', issues);
+  }
+
+  return { success: true, data: { ...result.data, messages: messages as UIMessage[] } };
+}
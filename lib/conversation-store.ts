@@ -0,0 +1,191 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { ChatUIMessage } from './chat-message';
+import { conversationTitle, type Conversation, type ConversationSummary } from './conversations';
+
+/**
+ * Server-side conversation storage.
+ *
+ * Conversations belong to the API key that created them, so every device
+ * enrolled with a key sees the same history. The default store keeps one JSON
+ * file per conversation under `CONVERSATIONS_DIR` (default
+ * `.data/conversations`); call `setConversationStore` with another
+ * implementation for shared or managed storage.
+ */
+export interface ConversationStore {
+  /**
+   * Summaries, most recently updated first
+   */
+  list(owner: string): Promise<ConversationSummary[]>;
+
+  get(owner: string, id: string): Promise<Conversation | null>;
+
+  /**
+   * Creates an empty conversation, or returns the existing one with that id
+   */
+  create(owner: string, conversation: { id: string; title?: string }): Promise<Conversation>;
+
+  /**
+   * Adds messages to the end. A message whose id is already stored replaces
+   * that message and everything after it, as when a reply is regenerated.
+   * Creates the conversation if needed.
+   */
+  append(owner: string, id: string, messages: ChatUIMessage[]): Promise<Conversation>;
+
+  /**
+   * @returns whether the conversation existed
+   */
+  delete(owner: string, id: string): Promise<boolean>;
+}
+
+export function appendMessages(existing: ChatUIMessage[], messages: ChatUIMessage[]): ChatUIMessage[] {
+  const result = [...existing];
+  for (const message of messages) {
+    const index = result.findIndex((m) => m.id === message.id);
+    if (index >= 0) {
+      result.length = index;
+    }
+    result.push(message);
+  }
+  return result;
+}
+
+export function toConversationSummary({ messages, ...conversation }: Conversation): ConversationSummary {
+  return { ...conversation, messageCount: messages.length };
+}
+
+// MARK: - File store
+
+export class FileConversationStore implements ConversationStore {
+  // Writes to one file are chained so concurrent appends don't lose messages
+  private readonly writes = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly directory: string) {}
+
+  async list(owner: string): Promise<ConversationSummary[]> {
+    let names: string[];
+    try {
+      names = await readdir(this.ownerDirectory(owner));
+    } catch {
+      return [];
+    }
+
+    const conversations = await Promise.all(
+      names
+        .filter((name) => name.endsWith('.json'))
+        .map((name) => this.read(path.join(this.ownerDirectory(owner), name))),
+    );
+    return conversations
+      .filter((conversation) => conversation !== null)
+      .map(toConversationSummary)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  get(owner: string, id: string): Promise<Conversation | null> {
+    return this.read(this.file(owner, id));
+  }
+
+  create(owner: string, { id, title }: { id: string; title?: string }): Promise<Conversation> {
+    return this.update(owner, id, (existing) => {
+      if (existing) {
+        return existing;
+      }
+      const now = Date.now();
+      return { id, title: title ?? conversationTitle([]), createdAt: now, updatedAt: now, messages: [] };
+    });
+  }
+
+  append(owner: string, id: string, messages: ChatUIMessage[]): Promise<Conversation> {
+    return this.update(owner, id, (existing) => {
+      const now = Date.now();
+      const updated = appendMessages(existing?.messages ?? [], messages);
+      return {
+        id,
+        // Keep a title given on create or taken from earlier messages
+        title:
+          existing && (existing.messages.length > 0 || existing.title !== conversationTitle([]))
+            ? existing.title
+            : conversationTitle(updated),
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+        messages: updated,
+      };
+    });
+  }
+
+  async delete(owner: string, id: string): Promise<boolean> {
+    const file = this.file(owner, id);
+    return this.serialize(file, async () => {
+      const existed = (await this.read(file)) !== null;
+      await rm(file, { force: true });
+      return existed;
+    });
+  }
+
+  private ownerDirectory(owner: string): string {
+    // Key names are free-form, so hash them into a directory name
+    return path.join(this.directory, createHash('sha256').update(owner).digest('hex').slice(0, 32));
+  }
+
+  private file(owner: string, id: string): string {
+    return path.join(this.ownerDirectory(owner), `${id}.json`);
+  }
+
+  private async read(file: string): Promise<Conversation | null> {
+    try {
+      return JSON.parse(await readFile(file, 'utf8')) as Conversation;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to read conversation ${file}:`, error);
+      }
+      return null;
+    }
+  }
+
+  private update(
+    owner: string,
+    id: string,
+    change: (existing: Conversation | null) => Conversation,
+  ): Promise<Conversation> {
+    const file = this.file(owner, id);
+    return this.serialize(file, async () => {
+      const conversation = change(await this.read(file));
+      await mkdir(path.dirname(file), { recursive: true });
+      // Write then rename so a crash never leaves half a file
+      const temporary = `${file}.${process.pid}.tmp`;
+      await writeFile(temporary, JSON.stringify(conversation));
+      await rename(temporary, file);
+      return conversation;
+    });
+  }
+
+  private serialize<T>(file: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.writes.get(file) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.writes.set(file, next);
+    const cleanUp = () => {
+      if (this.writes.get(file) === next) {
+        this.writes.delete(file);
+      }
+    };
+    next.then(cleanUp, cleanUp);
+    return next;
+  }
+}
+
+// MARK: - Store
+
+let store: ConversationStore | null = null;
+
+export function getConversationStore(): ConversationStore {
+  store ??= new FileConversationStore(path.resolve(process.env.CONVERSATIONS_DIR || '.data/conversations'));
+  return store;
+}
+
+/**
+ * Replaces the conversation storage, e.g. with a database-backed store
+ */
+export function setConversationStore(newStore: ConversationStore): void {
+  store = newStore;
+}
@@ -0,0 +1,65 @@
+import type { ChatMessageMetadata, ChatUIMessage } from './chat-message';
+
+/**
+ * Saved conversations. The server keeps them behind `/api/conversations`
+ * (see lib/conversation-store.ts); the client uses the types for responses.
+ */
+export interface ConversationSummary {
+  id: string;
+  title: string;
+
+  /**
+   * Milliseconds since the epoch
+   */
+  createdAt: number;
+  updatedAt: number;
+
+  messageCount: number;
+}
+
+export interface Conversation extends Omit<ConversationSummary, 'messageCount'> {
+  messages: ChatUIMessage[];
+}
+
+export interface ConversationsResponse {
+  conversations: ConversationSummary[];
+}
+
+/**
+ * Second argument of the `/api/conversations/[id]` route handlers
+ */
+export interface ConversationRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Ids come from the client (the useChat id) and end up in file names
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export function isValidConversationId(id: string): boolean {
+  return CONVERSATION_ID_PATTERN.test(id);
+}
+
+const TITLE_LENGTH = 60;
+
+/**
+ * Title from the first thing the user wrote or typed
+ */
+export function conversationTitle(messages: ChatUIMessage[]): string {
+  for (const message of messages) {
+    if (message.role !== 'user') {
+      continue;
+    }
+    const transcriptions = (message.metadata as ChatMessageMetadata | undefined)?.transcriptions ?? {};
+    const text = [
+      ...message.parts.flatMap((part) => (part.type === 'text' ? [part.text] : [])),
+      ...Object.values(transcriptions),
+    ]
+      .join(' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (text) {
+      return text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH - 1)}…` : text;
+    }
+  }
+  return 'Handwritten conversation';
+}
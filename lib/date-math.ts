@@ -0,0 +1,186 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+
+/**
+ * Calendar arithmetic behind the `dateMath` tool.
+ *
+ * Dates are whole days in the proleptic Gregorian calendar, without times or
+ * time zones; "today" is the current date in the user's time zone, which the
+ * client sends with each chat request, or in UTC when it is unknown.
+ */
+
+export class DateMathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DateMathError';
+  }
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DateInfo {
+  date: string;
+  weekday: string;
+}
+
+export interface DateDifference {
+  from: DateInfo;
+  to: DateInfo;
+
+  /**
+   * Whole days from `from` to `to`, negative when `to` is earlier
+   */
+  days: number;
+  weeks: number;
+
+  /**
+   * The same span as calendar years, months and days
+   */
+  years: number;
+  months: number;
+  remainingDays: number;
+}
+
+/**
+ * Whether `timeZone` is an IANA time zone name this runtime knows
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The calendar date it is in `timeZone` at `now`, as midnight UTC
+ */
+export function localToday(timeZone = 'UTC', now = new Date()): Date {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: 'numeric', day: 'numeric' })
+    .formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  return new Date(Date.UTC(part('year'), part('month') - 1, part('day')));
+}
+
+/**
+ * Parses `YYYY-MM-DD` or `today` to midnight UTC
+ * @throws DateMathError for anything else, including dates like 2025-02-30
+ */
+function parseDate(text: string, today: Date): Date {
+  if (text.trim().toLowerCase() === 'today') {
+    return today;
+  }
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text.trim());
+  const date = match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) : null;
+  // Date.UTC rolls 2025-02-30 over to March; reject it instead
+  if (!match || !date || formatDate(date) !== match[0]) {
+    throw new DateMathError(`Not a date: ${text}; use YYYY-MM-DD or "today"`);
+  }
+  return date;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function describeDate(date: Date): DateInfo {
+  if (Number.isNaN(date.getTime())) {
+    throw new DateMathError('Date is out of range');
+  }
+  return { date: formatDate(date), weekday: WEEKDAYS[date.getUTCDay()] };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Adds calendar months, clamping to the end of shorter months
+ * (January 31 plus one month is the last day of February)
+ */
+function addMonths(date: Date, months: number): Date {
+  const target = date.getUTCMonth() + months;
+  const year = date.getUTCFullYear() + Math.floor(target / 12);
+  const month = ((target % 12) + 12) % 12;
+  return new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), daysInMonth(year, month))));
+}
+
+export interface DateOffset {
+  years?: number;
+  months?: number;
+  weeks?: number;
+  days?: number;
+}
+
+/**
+ * Moves a date by a calendar offset; negative amounts go back
+ * @param today - what "today" means, as returned by `localToday`
+ */
+export function addToDate(dateText: string, offset: DateOffset, today = localToday()): DateInfo {
+  const start = parseDate(dateText, today);
+  const shifted = addMonths(start, (offset.years ?? 0) * 12 + (offset.months ?? 0));
+  const days = (offset.weeks ?? 0) * 7 + (offset.days ?? 0);
+  return describeDate(new Date(shifted.getTime() + days * DAY_MS));
+}
+
+/**
+ * Span between two dates in days, weeks and calendar years, months and days
+ * @param today - what "today" means, as returned by `localToday`
+ */
+export function dateDifference(fromText: string, toText: string, today = localToday()): DateDifference {
+  const from = parseDate(fromText, today);
+  const to = parseDate(toText, today);
+  const days = Math.round((to.getTime() - from.getTime()) / DAY_MS);
+
+  // Count whole months from the earlier date, then the days left over
+  const [earlier, later] = days < 0 ? [to, from] : [from, to];
+  let months =
+    (later.getUTCFullYear() - earlier.getUTCFullYear()) * 12 + later.getUTCMonth() - earlier.getUTCMonth();
+  if (addMonths(earlier, months).getTime() > later.getTime()) {
+    months -= 1;
+  }
+  const remainingDays = Math.round((later.getTime() - addMonths(earlier, months).getTime()) / DAY_MS);
+  const signed = (value: number) => (days < 0 && value !== 0 ? -value : value);
+
+  return {
+    from: describeDate(from),
+    to: describeDate(to),
+    days,
+    weeks: signed(Math.floor(Math.abs(days) / 7)),
+    years: signed(Math.floor(months / 12)),
+    months: signed(months % 12),
+    remainingDays: signed(remainingDays),
+  };
+}
+
+/**
+ * Creates the `dateMath` tool, where "today" is the date in `timeZone`
+ */
+export function createDateMathTool(timeZone?: string) {
+  return tool({
+    description:
+      'Calendar arithmetic: add or subtract years, months, weeks and days from a date, or count the days, weeks, ' +
+      'months and years between two dates. Also reports the weekday. Use "today" for the current date.',
+    inputSchema: z.object({
+      operation: z.enum(['add', 'difference']),
+      date: z.string().min(1).describe('Start date as YYYY-MM-DD, or "today"'),
+      otherDate: z.string().optional().describe('For "difference": end date as YYYY-MM-DD, or "today"'),
+      years: z.number().int().optional().describe('For "add"; negative to subtract'),
+      months: z.number().int().optional().describe('For "add"; negative to subtract'),
+      weeks: z.number().int().optional().describe('For "add"; negative to subtract'),
+      days: z.number().int().optional().describe('For "add"; negative to subtract'),
+    }),
+    execute: async ({ operation, date, otherDate, ...offset }) => {
+      const today = localToday(timeZone);
+      if (operation === 'add') {
+        return addToDate(date, offset, today);
+      }
+      if (!otherDate) {
+        throw new DateMathError('"difference" needs otherDate');
+      }
+      return dateDifference(date, otherDate, today);
+    },
+  });
+}
@@ -0,0 +1,151 @@
+import { API_BASE_URL, API_KEY } from './api-config';
+
+/**
+ * Client side of device enrollment (see lib/device-tokens.ts for the server).
+ *
+ * The device credential from enrollment is kept in localStorage; access tokens
+ * live in memory only and are refreshed shortly before they expire. While the
+ * device is not enrolled, requests fall back to `NEXT_PUBLIC_API_KEY` when a
+ * build still sets one (development).
+ */
+
+const CREDENTIAL_STORAGE_KEY = 'chatty-pencil.deviceCredential';
+
+// Refresh this long before expiry so in-flight requests never carry a stale token
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+interface AccessToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+let accessToken: AccessToken | null = null;
+let pendingRefresh: Promise<AccessToken | null> | null = null;
+const listeners = new Set<() => void>();
+
+function readCredential(): string | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  return window.localStorage.getItem(CREDENTIAL_STORAGE_KEY);
+}
+
+function writeCredential(credential: string | null): void {
+  if (credential === null) {
+    window.localStorage.removeItem(CREDENTIAL_STORAGE_KEY);
+  } else {
+    window.localStorage.setItem(CREDENTIAL_STORAGE_KEY, credential);
+  }
+  accessToken = null;
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Whether requests can authenticate: the device is enrolled, or the build has a static key
+ */
+export function isAuthenticated(): boolean {
+  return readCredential() !== null || API_KEY !== '';
+}
+
+/**
+ * Subscribes to enrollment changes (enrolled, or the credential was revoked)
+ * @returns unsubscribe function
+ */
+export function subscribeToEnrollment(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Enrolls this device with an enrollment code handed out by the server operator
+ * @throws Error if the code is rejected or enrollment is unavailable
+ */
+export async function enrollDevice(enrollmentCode: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/api/auth/enroll`, {
+    method: 'POST',
+    headers: {
+      'x-api-key': enrollmentCode,
+    },
+  });
+  if (!response.ok) {
+    throw new Error(response.status === 401 ? 'Invalid enrollment code' : `Enrollment failed (${response.status})`);
+  }
+
+  const { deviceCredential }: { deviceCredential: string } = await response.json();
+  writeCredential(deviceCredential);
+}
+
+/**
+ * Forgets the device credential, e.g. to enroll again with another code
+ */
+export function forgetDevice(): void {
+  writeCredential(null);
+}
+
+async function refreshAccessToken(credential: string): Promise<AccessToken | null> {
+  const response = await fetch(`${API_BASE_URL}/api/auth/token`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ deviceCredential: credential }),
+  });
+
+  if (response.status === 401) {
+    // The credential (or the key it was enrolled with) was revoked
+    console.warn('Device credential was rejected; enrollment is required again');
+    writeCredential(null);
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Token refresh failed (${response.status})`);
+  }
+  return response.json();
+}
+
+async function getAccessToken(forceRefresh: boolean): Promise<string | null> {
+  const credential = readCredential();
+  if (!credential) {
+    return null;
+  }
+  if (!forceRefresh && accessToken && accessToken.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+    return accessToken.accessToken;
+  }
+
+  // Concurrent requests share one refresh
+  pendingRefresh ??= refreshAccessToken(credential).finally(() => {
+    pendingRefresh = null;
+  });
+  accessToken = await pendingRefresh;
+  return accessToken?.accessToken ?? null;
+}
+
+async function authHeaders(forceRefresh = false): Promise<Record<string, string>> {
+  const token = await getAccessToken(forceRefresh);
+  if (token) {
+    return { Authorization: `Bearer ${token}` };
+  }
+  return API_KEY ? { 'x-api-key': API_KEY } : {};
+}
+
+/**
+ * `fetch` for the API: adds the device access token (refreshing it as needed)
+ * or the static key, and retries once with a fresh token after a 401
+ */
+export async function authFetch(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+  const send = async (forceRefresh: boolean) => {
+    const headers = new Headers(init.headers);
+    for (const [name, value] of Object.entries(await authHeaders(forceRefresh))) {
+      headers.set(name, value);
+    }
+    return fetch(input, { ...init, headers });
+  };
+
+  const response = await send(false);
+  if (response.status === 401 && readCredential() !== null) {
+    return send(true);
+  }
+  return response;
+}
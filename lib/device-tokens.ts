@@ -0,0 +1,191 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+import { readFile, stat } from 'node:fs/promises';
+
+/**
+ * Stateless, HMAC-signed device tokens, so the app never ships a permanent key.
+ *
+ * A device enrolls once with an enrollment code (a named API key) and gets a
+ * long-lived device credential. It exchanges that credential for short-lived
+ * access tokens, which the API accepts as `Authorization: Bearer <token>`.
+ * Device credentials expire after `DEVICE_CREDENTIAL_TTL_SECONDS`, and a
+ * single device can be cut off by listing its id in `REVOKED_DEVICES` or
+ * `REVOKED_DEVICES_FILE`; its current access token runs out within the access
+ * token TTL. Revoking or removing the enrollment key locks out all of its
+ * devices at once: the token route and `authenticateRequest` (lib/api-route.ts)
+ * both check that the key is still active.
+ *
+ * Tokens are `<base64url claims>.<base64url HMAC-SHA256>`, signed with
+ * `TOKEN_SIGNING_SECRET`.
+ */
+
+export type TokenType = 'device' | 'access';
+
+export interface TokenClaims {
+  typ: TokenType;
+  /**
+   * Device id
+   */
+  sub: string;
+  /**
+   * Name of the API key the device enrolled with
+   */
+  key: string;
+  /**
+   * Issued at, in seconds since the epoch
+   */
+  iat: number;
+  /**
+   * Expiry in seconds since the epoch
+   */
+  exp: number;
+}
+
+export interface EnrolledDevice {
+  deviceId: string;
+  deviceCredential: string;
+  /**
+   * When the credential expires, in milliseconds since the epoch
+   */
+  expiresAt: number;
+}
+
+export interface IssuedAccessToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const DEFAULT_DEVICE_CREDENTIAL_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+let cachedRevocations: { path: string; mtimeMs: number; deviceIds: Set<string> } | null = null;
+
+function signingSecret(): string | null {
+  const secret = process.env.TOKEN_SIGNING_SECRET;
+  return secret && secret.length >= 32 ? secret : null;
+}
+
+/**
+ * Whether device tokens are configured (`TOKEN_SIGNING_SECRET` of 32+ characters)
+ */
+export function deviceTokensEnabled(): boolean {
+  return signingSecret() !== null;
+}
+
+function ttlSeconds(value: string | undefined, fallback: number): number {
+  const ttl = Number(value);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : fallback;
+}
+
+/**
+ * Parses a revocation list: device ids separated by commas or whitespace,
+ * with `#` starting a comment
+ */
+export function parseRevokedDevices(source: string): Set<string> {
+  return new Set(
+    source
+      .split('\n')
+      .flatMap((line) => line.replace(/#.*/, '').split(/[\s,]+/))
+      .filter((id) => id !== ''),
+  );
+}
+
+async function loadRevokedDevicesFile(path: string): Promise<Set<string>> {
+  try {
+    const { mtimeMs } = await stat(path);
+    if (cachedRevocations?.path !== path || cachedRevocations.mtimeMs !== mtimeMs) {
+      cachedRevocations = { path, mtimeMs, deviceIds: parseRevokedDevices(await readFile(path, 'utf8')) };
+    }
+  } catch (error) {
+    // Keep the last good list (if any) rather than letting revoked devices back in
+    console.error('[device-tokens] Failed to load REVOKED_DEVICES_FILE:', error);
+    if (cachedRevocations?.path !== path) {
+      return new Set();
+    }
+  }
+  return cachedRevocations.deviceIds;
+}
+
+/**
+ * Whether a device id is on the revocation list (`REVOKED_DEVICES_FILE`,
+ * re-read whenever it changes, or `REVOKED_DEVICES`)
+ */
+export async function isDeviceRevoked(deviceId: string): Promise<boolean> {
+  const path = process.env.REVOKED_DEVICES_FILE;
+  if (path && (await loadRevokedDevicesFile(path)).has(deviceId)) {
+    return true;
+  }
+  return parseRevokedDevices(process.env.REVOKED_DEVICES ?? '').has(deviceId);
+}
+
+function hmac(secret: string, payload: string): Buffer {
+  return createHmac('sha256', secret).update(payload).digest();
+}
+
+function signToken(claims: TokenClaims): string {
+  const secret = signingSecret();
+  if (!secret) {
+    throw new Error('TOKEN_SIGNING_SECRET is not configured');
+  }
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${hmac(secret, payload).toString('base64url')}`;
+}
+
+/**
+ * Verifies a token's signature, type and expiry, and for device credentials
+ * that the device has not been revoked
+ * @returns the claims, or null if the token is invalid for any reason
+ */
+export async function verifyToken(token: string, type: TokenType): Promise<TokenClaims | null> {
+  const secret = signingSecret();
+  const [payload, signature, ...rest] = token.split('.');
+  if (!secret || !payload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = hmac(secret, payload);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  let claims: TokenClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  if (claims.typ !== type || typeof claims.sub !== 'string' || typeof claims.key !== 'string') {
+    return null;
+  }
+  if (typeof claims.exp !== 'number' || claims.exp <= Math.floor(Date.now() / 1000)) {
+    return null;
+  }
+  if (type === 'device' && (await isDeviceRevoked(claims.sub))) {
+    return null;
+  }
+  return claims;
+}
+
+/**
+ * Issues a device credential for a newly enrolled device
+ */
+export function issueDeviceCredential(keyName: string): EnrolledDevice {
+  const deviceId = randomUUID();
+  const now = Math.floor(Date.now() / 1000);
+  const exp = now + ttlSeconds(process.env.DEVICE_CREDENTIAL_TTL_SECONDS, DEFAULT_DEVICE_CREDENTIAL_TTL_SECONDS);
+  const deviceCredential = signToken({ typ: 'device', sub: deviceId, key: keyName, iat: now, exp });
+  return { deviceId, deviceCredential, expiresAt: exp * 1000 };
+}
+
+/**
+ * Issues a short-lived access token for an enrolled device
+ */
+export function issueAccessToken(device: TokenClaims): IssuedAccessToken {
+  const now = Math.floor(Date.now() / 1000);
+  const exp = now + ttlSeconds(process.env.ACCESS_TOKEN_TTL_SECONDS, DEFAULT_ACCESS_TOKEN_TTL_SECONDS);
+  return {
+    accessToken: signToken({ typ: 'access', sub: device.sub, key: device.key, iat: now, exp }),
+    expiresAt: exp * 1000,
+  };
+}
@@ -0,0 +1,88 @@
+import type { UIMessage } from 'ai';
+import { isCanvasDrawing, type ChatMessageMetadata } from './chat-message';
+
+/**
+ * History compaction for long handwritten conversations.
+ *
+ * The client sends the whole conversation every turn, so without compaction
+ * every drawing is uploaded and billed again on each message. Only the most
+ * recent drawings are kept as images; older ones are replaced by the text the
+ * transcription pass read from them, or a placeholder when there is none.
+ * Photos are left alone. Used by the client transport before upload and by
+ * the chat route before the provider call, so both stay bounded.
+ */
+
+export const UNTRANSCRIBED_DRAWING_PLACEHOLDER = '[Earlier handwritten drawing, no longer shown]';
+export const UNSEEN_DRAWING_PLACEHOLDER = '[The user sent a handwritten drawing, but this model cannot see images]';
+
+function transcriptionOf(message: UIMessage<unknown>, partIndex: number): string | undefined {
+  const transcriptions = (message.metadata as ChatMessageMetadata | undefined)?.transcriptions;
+  const text = transcriptions?.[partIndex];
+  return typeof text === 'string' && text.trim() ? text : undefined;
+}
+
+export interface CompactHistoryOptions {
+  /**
+   * Whether the latest user message is the turn being answered. Its drawings
+   * count towards `keepRecentImages` but are never called earlier ones; they
+   * are only replaced when the model takes no images, with a note saying so.
+   */
+  includesCurrentTurn?: boolean;
+}
+
+/**
+ * Replaces all but the last `keepRecentImages` drawings with text parts
+ */
+export function compactHistory<MESSAGE extends UIMessage<unknown>>(
+  messages: MESSAGE[],
+  keepRecentImages: number,
+  { includesCurrentTurn = false }: CompactHistoryOptions = {},
+): MESSAGE[] {
+  const currentTurn = includesCurrentTurn ? messages.findLastIndex((message) => message.role === 'user') : -1;
+  const earlier: Array<[messageIndex: number, partIndex: number]> = [];
+  const current: Array<[messageIndex: number, partIndex: number]> = [];
+  messages.forEach((message, messageIndex) => {
+    message.parts.forEach((part, partIndex) => {
+      if (part.type === 'file' && isCanvasDrawing(part)) {
+        (messageIndex === currentTurn ? current : earlier).push([messageIndex, partIndex]);
+      }
+    });
+  });
+
+  const keepEarlier = Math.max(0, keepRecentImages - current.length);
+  const toReplace = [
+    ...earlier.slice(0, Math.max(0, earlier.length - keepEarlier)),
+    ...(keepRecentImages === 0 ? current : []),
+  ];
+  if (toReplace.length === 0) {
+    return messages;
+  }
+
+  const replaced = new Set(toReplace.map(([messageIndex, partIndex]) => `${messageIndex}:${partIndex}`));
+  return messages.map((message, messageIndex) => {
+    if (!message.parts.some((_, partIndex) => replaced.has(`${messageIndex}:${partIndex}`))) {
+      return message;
+    }
+    return {
+      ...message,
+      parts: message.parts.map((part, partIndex) => {
+        if (!replaced.has(`${messageIndex}:${partIndex}`)) {
+          return part;
+        }
+        const transcription = transcriptionOf(message, partIndex);
+        if (messageIndex === currentTurn) {
+          return {
+            type: 'text' as const,
+            text: transcription ? `[Handwritten message, transcribed]\n${transcription}` : UNSEEN_DRAWING_PLACEHOLDER,
+          };
+        }
+        return {
+          type: 'text' as const,
+          text: transcription
+            ? `[Earlier handwritten message, transcribed]\n${transcription}`
+            : UNTRANSCRIBED_DRAWING_PLACEHOLDER,
+        };
+      }),
+    };
+  });
+}
@@ -0,0 +1,99 @@
+import type { UIMessage } from 'ai';
+import type { ChatMessageMetadata, HistorySummary } from './chat-message';
+
+/**
+ * Rolling summaries for conversations that outgrow the model's context.
+ *
+ * When a request comes close to the context window, the chat route folds the
+ * oldest turns into a summary and returns it in the reply's metadata. From
+ * then on every request sends the summary in place of the turns it covers;
+ * once the remainder fills up again, the previous summary and the next turns
+ * are summarised together. The app folds before upload and the route folds
+ * whatever the app did not; the original turns are kept so the app can still
+ * show them.
+ */
+
+export const SUMMARY_HEADING = '[Summary of the earlier conversation]';
+
+/**
+ * Rough cost of an image when no reported usage covers it
+ */
+const IMAGE_TOKEN_ESTIMATE = 1_000;
+
+// Typical for English text across current tokenizers
+const CHARACTERS_PER_TOKEN = 4;
+
+function metadataOf(message: UIMessage<unknown>): ChatMessageMetadata | undefined {
+  return message.metadata as ChatMessageMetadata | undefined;
+}
+
+/**
+ * The newest summary whose covered messages are all still in the conversation
+ * @returns the summary and the index of the last message it covers
+ */
+export function findLatestSummary(
+  messages: UIMessage<unknown>[],
+): { summary: HistorySummary; throughIndex: number } | undefined {
+  for (let index = messages.length - 1; index >= 0; index--) {
+    const summary = metadataOf(messages[index])?.summary;
+    if (!summary) {
+      continue;
+    }
+    const throughIndex = messages.findIndex((message) => message.id === summary.throughMessageId);
+    if (throughIndex !== -1 && throughIndex < index) {
+      return { summary, throughIndex };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether a message is the stand-in `foldSummarizedTurns` puts in front
+ */
+export function isSummaryMessage(message: UIMessage<unknown>): boolean {
+  return message.id.startsWith('summary-');
+}
+
+/**
+ * Replaces the turns covered by a summary with a single message holding it
+ */
+export function foldSummarizedTurns<MESSAGE extends UIMessage<unknown>>(
+  messages: MESSAGE[],
+  latest = findLatestSummary(messages),
+): MESSAGE[] {
+  if (!latest) {
+    return messages;
+  }
+  const summaryMessage = {
+    id: `summary-${latest.summary.throughMessageId}`,
+    role: 'user',
+    parts: [{ type: 'text', text: `${SUMMARY_HEADING}\n${latest.summary.text}` }],
+  } as MESSAGE;
+  return [summaryMessage, ...messages.slice(latest.throughIndex + 1)];
+}
+
+/**
+ * Estimated prompt tokens for sending `messages`.
+ *
+ * Starts from what the provider reported for the latest response, which is
+ * exact for everything up to it, and estimates the messages added since.
+ */
+export function estimateContextTokens(messages: UIMessage<unknown>[]): number {
+  const lastReported = messages.findLastIndex(
+    (message) => message.role === 'assistant' && metadataOf(message)?.usage,
+  );
+  const usage = lastReported === -1 ? undefined : metadataOf(messages[lastReported])?.usage;
+  const reported = usage ? usage.inputTokens + usage.outputTokens : 0;
+
+  return messages.slice(lastReported + 1).reduce(
+    (tokens, message) =>
+      tokens +
+      message.parts.reduce((partTokens, part) => {
+        if (part.type === 'text' || part.type === 'reasoning') {
+          return partTokens + Math.ceil(part.text.length / CHARACTERS_PER_TOKEN);
+        }
+        return part.type === 'file' ? partTokens + IMAGE_TOKEN_ESTIMATE : partTokens;
+      }, 0),
+    reported,
+  );
+}
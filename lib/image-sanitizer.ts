@@ -0,0 +1,192 @@
+import { createHash } from 'node:crypto';
+import type { UIMessage } from 'ai';
+import sharp from 'sharp';
+import type { ChatRequestIssue } from './chat-request';
+
+/**
+ * Server-side clean-up of images before they reach the provider.
+ *
+ * Every image file part is decoded, its bytes are checked against the
+ * declared mediaType, and it is re-encoded with sharp: EXIF orientation is
+ * applied, metadata (location, device, ICC profiles) is dropped, and anything
+ * larger than `IMAGE_MAX_DIMENSION` (default 2048) on its long side is
+ * downscaled. SVG drawings and GIFs are rasterised to PNG. Images over
+ * `IMAGE_MAX_INPUT_PIXELS` (default 50 megapixels) are rejected before
+ * decoding.
+ */
+
+type ImageFormat = 'png' | 'jpeg' | 'webp' | 'gif' | 'svg';
+
+const MEDIA_TYPES: Record<ImageFormat, string[]> = {
+  png: ['image/png'],
+  jpeg: ['image/jpeg', 'image/jpg'],
+  webp: ['image/webp'],
+  gif: ['image/gif'],
+  svg: ['image/svg+xml'],
+};
+
+const JPEG_QUALITY = 85;
+
+// Identical images are re-sent with every turn of a conversation
+const CACHE_SIZE = 100;
+const cache = new Map<string, SanitizedImage>();
+
+export interface SanitizedImage {
+  url: string;
+  mediaType: string;
+}
+
+export type SanitizeResult = { success: true; messages: UIMessage[] } | { success: false; issues: ChatRequestIssue[] };
+
+/**
+ * The image cannot be used; the message says why
+ */
+export class ImageRejectedError extends Error {}
+
+function limitFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name] ?? fallback);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Identifies an image from its leading bytes
+ */
+export function detectImageFormat(bytes: Buffer): ImageFormat | null {
+  if (bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'png';
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'jpeg';
+  }
+  if (bytes.toString('latin1', 0, 4) === 'RIFF' && bytes.toString('latin1', 8, 12) === 'WEBP') {
+    return 'webp';
+  }
+  const header = bytes.toString('latin1', 0, 6);
+  if (header === 'GIF87a' || header === 'GIF89a') {
+    return 'gif';
+  }
+  // SVG has no signature; look for the root element near the start of the text
+  const text = bytes.toString('utf8', 0, 1024).trimStart();
+  if ((text.startsWith('<svg') || text.startsWith('<?xml')) && text.includes('<svg')) {
+    return 'svg';
+  }
+  return null;
+}
+
+function decodeDataUrl(url: string): { mediaType: string; bytes: Buffer } {
+  const comma = url.indexOf(',');
+  if (!url.startsWith('data:') || comma < 0) {
+    throw new ImageRejectedError('Malformed data URL');
+  }
+  const [mediaType, ...parameters] = url.slice('data:'.length, comma).split(';');
+  const data = url.slice(comma + 1);
+  try {
+    const bytes = parameters.includes('base64') ? Buffer.from(data, 'base64') : Buffer.from(decodeURIComponent(data));
+    return { mediaType: mediaType.toLowerCase(), bytes };
+  } catch {
+    throw new ImageRejectedError('Malformed data URL');
+  }
+}
+
+async function reencodeImage(declaredMediaType: string, url: string): Promise<SanitizedImage> {
+  const { mediaType, bytes } = decodeDataUrl(url);
+  const format = detectImageFormat(bytes);
+  if (!format) {
+    throw new ImageRejectedError('Unsupported or corrupt image data');
+  }
+  const declared = declaredMediaType.toLowerCase();
+  if (!MEDIA_TYPES[format].includes(declared) || (mediaType && !MEDIA_TYPES[format].includes(mediaType))) {
+    throw new ImageRejectedError(`Image data is ${format} but was declared as ${declaredMediaType}`);
+  }
+
+  const maxDimension = limitFromEnv('IMAGE_MAX_DIMENSION', 2048);
+  const maxInputPixels = limitFromEnv('IMAGE_MAX_INPUT_PIXELS', 50_000_000);
+  let image = sharp(bytes, { limitInputPixels: maxInputPixels });
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await image.metadata();
+  } catch {
+    throw new ImageRejectedError(`Corrupt ${format} image`);
+  }
+  if (!metadata.width || !metadata.height) {
+    throw new ImageRejectedError('Image has no dimensions');
+  }
+  if (metadata.width * metadata.height > maxInputPixels) {
+    throw new ImageRejectedError(`Image is ${metadata.width}x${metadata.height}, over the ${maxInputPixels} pixel limit`);
+  }
+
+  image = image
+    .rotate()
+    .resize({ width: maxDimension, height: maxDimension, fit: 'inside', withoutEnlargement: true });
+
+  let output: Buffer;
+  let outputMediaType: string;
+  try {
+    if (format === 'jpeg') {
+      output = await image.jpeg({ quality: JPEG_QUALITY, mozjpeg: true }).toBuffer();
+      outputMediaType = 'image/jpeg';
+    } else if (format === 'webp') {
+      output = await image.webp().toBuffer();
+      outputMediaType = 'image/webp';
+    } else {
+      output = await image.png().toBuffer();
+      outputMediaType = 'image/png';
+    }
+  } catch {
+    throw new ImageRejectedError(`Corrupt ${format} image`);
+  }
+
+  return { url: `data:${outputMediaType};base64,${output.toString('base64')}`, mediaType: outputMediaType };
+}
+
+/**
+ * Verifies and re-encodes one image data URL
+ * @throws ImageRejectedError if the image is malformed, mislabelled or too large
+ */
+export async function sanitizeImage(mediaType: string, url: string): Promise<SanitizedImage> {
+  const key = createHash('sha256').update(mediaType).update('\0').update(url).digest('hex');
+  const cached = cache.get(key);
+  if (cached) {
+    // Refresh recency
+    cache.delete(key);
+    cache.set(key, cached);
+    return cached;
+  }
+
+  const sanitized = await reencodeImage(mediaType, url);
+  cache.set(key, sanitized);
+  if (cache.size > CACHE_SIZE) {
+    cache.delete(cache.keys().next().value!);
+  }
+  return sanitized;
+}
+
+/**
+ * Replaces every image file part with a sanitised copy
+ * @returns the rewritten messages, or one issue per rejected image
+ */
+export async function sanitizeMessageImages(messages: UIMessage[]): Promise<SanitizeResult> {
+  const issues: ChatRequestIssue[] = [];
+
+  const sanitized: UIMessage[] = [];
+  for (const [messageIndex, message] of messages.entries()) {
+    const parts: UIMessage['parts'] = [];
+    for (const [partIndex, part] of message.parts.entries()) {
+      if (part.type !== 'file' || !part.mediaType.toLowerCase().startsWith('image/')) {
+        parts.push(part);
+        continue;
+      }
+      try {
+        parts.push({ ...part, ...(await sanitizeImage(part.mediaType, part.url)) });
+      } catch (error) {
+        if (!(error instanceof ImageRejectedError)) {
+          throw error;
+        }
+        issues.push({ path: `messages.${messageIndex}.parts.${partIndex}`, message: error.message });
+      }
+    }
+    sanitized.push({ ...message, parts });
+  }
+
+  return issues.length > 0 ? { success: false, issues } : { success: true, messages: sanitized };
+}
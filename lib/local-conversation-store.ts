@@ -0,0 +1,449 @@
+import { isCanvasDrawing, type ChatMessageMetadata, type ChatUIMessage } from './chat-message';
+import { conversationTitle, type ConversationSummary } from './conversations';
+
+/**
+ * Local-first conversation history for the static iPad build.
+ *
+ * Conversations live in IndexedDB so they survive restarts without a server.
+ * Summaries, messages and images are kept in separate object stores: the
+ * history list never loads messages, and images are stored as Blobs instead
+ * of base64 data URLs inside the message JSON. Each message is its own
+ * record, so saving after a reply only writes the messages that changed. Falls back to memory where
+ * IndexedDB is unavailable (private browsing, server rendering).
+ */
+
+/**
+ * A saved conversation as listed in the history sidebar
+ */
+export interface LocalConversationSummary extends ConversationSummary {
+  pinned: boolean;
+
+  /**
+   * Set once the user renames the conversation, so saving keeps their title
+   */
+  titleEdited: boolean;
+
+  /**
+   * Lowercased text and transcriptions, for full-text search
+   */
+  searchText: string;
+
+  /**
+   * Image of the first drawing, for the list thumbnail
+   */
+  thumbnailImageId?: string;
+}
+
+interface MessageRecord {
+  // `<conversation id>/<message id>`
+  id: string;
+  conversationId: string;
+  // Position in the conversation
+  index: number;
+  // File parts point at the images store with an `image:<id>` url
+  message: ChatUIMessage;
+}
+
+interface ImageRecord {
+  id: string;
+  conversationId: string;
+  blob: Blob;
+}
+
+const DATABASE_NAME = 'chatty-pencil';
+const DATABASE_VERSION = 1;
+const CONVERSATIONS_STORE = 'conversations';
+const MESSAGES_STORE = 'messages';
+const IMAGES_STORE = 'images';
+const META_STORE = 'meta';
+const ACTIVE_CONVERSATION_KEY = 'activeConversationId';
+const IMAGE_URL_PREFIX = 'image:';
+
+export class LocalConversationStore {
+  private database: Promise<IDBDatabase | null> | null = null;
+  private readonly memoryConversations = new Map<string, LocalConversationSummary>();
+  private readonly memoryMessages = new Map<string, MessageRecord>();
+  private readonly memoryImages = new Map<string, ImageRecord>();
+  private memoryActiveConversationId: string | null = null;
+  private readonly listeners = new Set<() => void>();
+
+  // MARK: - Conversations
+
+  /**
+   * Summaries, most recently updated first
+   */
+  async list(): Promise<LocalConversationSummary[]> {
+    const database = await this.open();
+    const conversations = database
+      ? await request<LocalConversationSummary[]>(
+          database.transaction(CONVERSATIONS_STORE).objectStore(CONVERSATIONS_STORE).getAll(),
+        )
+      : [...this.memoryConversations.values()];
+    return conversations.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async getSummary(id: string): Promise<LocalConversationSummary | null> {
+    const database = await this.open();
+    if (!database) {
+      return this.memoryConversations.get(id) ?? null;
+    }
+    const summary = await request<LocalConversationSummary | undefined>(
+      database.transaction(CONVERSATIONS_STORE).objectStore(CONVERSATIONS_STORE).get(id),
+    );
+    return summary ?? null;
+  }
+
+  /**
+   * Messages of a conversation with images restored as data URLs, or null if it was never saved
+   */
+  async load(id: string): Promise<ChatUIMessage[] | null> {
+    const records = await this.getMessageRecords(id);
+    if (records.length === 0) {
+      return null;
+    }
+
+    return Promise.all(
+      records.map(async ({ message }) => ({
+        ...message,
+        parts: await Promise.all(
+          message.parts.map(async (part) => {
+            if (part.type !== 'file' || !part.url.startsWith(IMAGE_URL_PREFIX)) {
+              return part;
+            }
+            const image = await this.getImage(part.url.slice(IMAGE_URL_PREFIX.length));
+            return image ? { ...part, url: await blobToDataUrl(image.blob) } : part;
+          }),
+        ),
+      })),
+    );
+  }
+
+  /**
+   * Replaces the stored messages of a conversation, creating it if needed.
+   * Messages stored unchanged at the same position are left alone, so their
+   * images are not encoded and written again.
+   */
+  async save(id: string, messages: ChatUIMessage[]): Promise<void> {
+    const previous = new Map((await this.getMessageRecords(id)).map((record) => [record.id, record]));
+    const records: MessageRecord[] = [];
+    const changed: MessageRecord[] = [];
+    const images: ImageRecord[] = [];
+    for (const [index, message] of messages.entries()) {
+      const recordId = `${id}/${message.id}`;
+      const storedMessage = toStoredMessage(recordId, message);
+      const existing = previous.get(recordId);
+      if (existing?.index === index && JSON.stringify(existing.message) === JSON.stringify(storedMessage)) {
+        records.push(existing);
+        continue;
+      }
+      const record: MessageRecord = { id: recordId, conversationId: id, index, message: storedMessage };
+      records.push(record);
+      changed.push(record);
+      images.push(...(await imagesOf(id, recordId, message)));
+    }
+    const savedIds = new Set(records.map((record) => record.id));
+    const removedIds = [...previous.keys()].filter((recordId) => !savedIds.has(recordId));
+
+    const existing = await this.getSummary(id);
+    const now = Date.now();
+    const summary: LocalConversationSummary = {
+      id,
+      title: existing?.titleEdited ? existing.title : conversationTitle(messages),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      messageCount: messages.length,
+      pinned: existing?.pinned ?? false,
+      titleEdited: existing?.titleEdited ?? false,
+      searchText: searchTextOf(messages),
+      thumbnailImageId: thumbnailImageIdOf(records.map((record) => record.message)),
+    };
+
+    const database = await this.open();
+    if (!database) {
+      this.memoryConversations.set(id, summary);
+      for (const recordId of [...changed.map((record) => record.id), ...removedIds]) {
+        this.memoryMessages.delete(recordId);
+        this.deleteMemoryImages(`${recordId}/`);
+      }
+      for (const record of changed) {
+        this.memoryMessages.set(record.id, record);
+      }
+      for (const image of images) {
+        this.memoryImages.set(image.id, image);
+      }
+      this.notify();
+      return;
+    }
+
+    const transaction = database.transaction([CONVERSATIONS_STORE, MESSAGES_STORE, IMAGES_STORE], 'readwrite');
+    const messageStore = transaction.objectStore(MESSAGES_STORE);
+    const imageStore = transaction.objectStore(IMAGES_STORE);
+    // Drop the images of changed and removed messages, so none linger
+    for (const recordId of [...changed.map((record) => record.id), ...removedIds]) {
+      imageStore.delete(keyRange(recordId));
+    }
+    for (const recordId of removedIds) {
+      messageStore.delete(recordId);
+    }
+    for (const image of images) {
+      imageStore.put(image);
+    }
+    for (const record of changed) {
+      messageStore.put(record);
+    }
+    transaction.objectStore(CONVERSATIONS_STORE).put(summary);
+    await complete(transaction);
+    this.notify();
+  }
+
+  async rename(id: string, title: string): Promise<void> {
+    await this.updateSummary(id, (summary) => ({ ...summary, title, titleEdited: true }));
+  }
+
+  async setPinned(id: string, pinned: boolean): Promise<void> {
+    await this.updateSummary(id, (summary) => ({ ...summary, pinned }));
+  }
+
+  async delete(id: string): Promise<void> {
+    const database = await this.open();
+    if (!database) {
+      this.memoryConversations.delete(id);
+      for (const record of this.memoryMessages.values()) {
+        if (record.conversationId === id) {
+          this.memoryMessages.delete(record.id);
+        }
+      }
+      this.deleteMemoryImages(`${id}/`);
+      this.notify();
+      return;
+    }
+
+    const transaction = database.transaction([CONVERSATIONS_STORE, MESSAGES_STORE, IMAGES_STORE], 'readwrite');
+    transaction.objectStore(CONVERSATIONS_STORE).delete(id);
+    transaction.objectStore(MESSAGES_STORE).delete(keyRange(id));
+    transaction.objectStore(IMAGES_STORE).delete(keyRange(id));
+    await complete(transaction);
+    this.notify();
+  }
+
+  /**
+   * Subscribes to changes in the list of conversations
+   * @returns unsubscribe function
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+
+  private async updateSummary(
+    id: string,
+    change: (summary: LocalConversationSummary) => LocalConversationSummary,
+  ): Promise<void> {
+    const summary = await this.getSummary(id);
+    if (!summary) {
+      return;
+    }
+    const database = await this.open();
+    if (database) {
+      await request(
+        database.transaction(CONVERSATIONS_STORE, 'readwrite').objectStore(CONVERSATIONS_STORE).put(change(summary)),
+      );
+    } else {
+      this.memoryConversations.set(id, change(summary));
+    }
+    this.notify();
+  }
+
+  private async getMessageRecords(conversationId: string): Promise<MessageRecord[]> {
+    const database = await this.open();
+    const records = database
+      ? await request<MessageRecord[]>(
+          database.transaction(MESSAGES_STORE).objectStore(MESSAGES_STORE).getAll(keyRange(conversationId)),
+        )
+      : [...this.memoryMessages.values()].filter((record) => record.conversationId === conversationId);
+    return records.sort((a, b) => a.index - b.index);
+  }
+
+  // MARK: - Active Conversation
+
+  /**
+   * Conversation to reopen on launch
+   */
+  async getActiveConversationId(): Promise<string | null> {
+    const database = await this.open();
+    if (!database) {
+      return this.memoryActiveConversationId;
+    }
+    const id = await request<string | undefined>(
+      database.transaction(META_STORE).objectStore(META_STORE).get(ACTIVE_CONVERSATION_KEY),
+    );
+    return id ?? null;
+  }
+
+  async setActiveConversationId(id: string): Promise<void> {
+    const database = await this.open();
+    if (!database) {
+      this.memoryActiveConversationId = id;
+      return;
+    }
+    const store = database.transaction(META_STORE, 'readwrite').objectStore(META_STORE);
+    await request(store.put(id, ACTIVE_CONVERSATION_KEY));
+  }
+
+  // MARK: - Images
+
+  /**
+   * A stored image, e.g. a conversation's thumbnail
+   */
+  async getImageBlob(id: string): Promise<Blob | null> {
+    return (await this.getImage(id))?.blob ?? null;
+  }
+
+  private deleteMemoryImages(idPrefix: string): void {
+    for (const image of this.memoryImages.values()) {
+      if (image.id.startsWith(idPrefix)) {
+        this.memoryImages.delete(image.id);
+      }
+    }
+  }
+
+  private async getImage(id: string): Promise<ImageRecord | null> {
+    const database = await this.open();
+    if (!database) {
+      return this.memoryImages.get(id) ?? null;
+    }
+    const record = await request<ImageRecord | undefined>(
+      database.transaction(IMAGES_STORE).objectStore(IMAGES_STORE).get(id),
+    );
+    return record ?? null;
+  }
+
+  // MARK: - Database
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.database) {
+      this.database = openDatabase().catch((error) => {
+        console.warn('Conversations will not persist, IndexedDB is unavailable:', error);
+        return null;
+      });
+    }
+    return this.database;
+  }
+}
+
+/**
+ * Shared store used by the app
+ */
+export const localConversations = new LocalConversationStore();
+
+/**
+ * The message as stored: data URL images point at the images store instead
+ */
+function toStoredMessage(recordId: string, message: ChatUIMessage): ChatUIMessage {
+  return {
+    ...message,
+    parts: message.parts.map((part, index) =>
+      part.type === 'file' && part.url.startsWith('data:')
+        ? { ...part, url: `${IMAGE_URL_PREFIX}${recordId}/${index}` }
+        : part,
+    ),
+  };
+}
+
+async function imagesOf(conversationId: string, recordId: string, message: ChatUIMessage): Promise<ImageRecord[]> {
+  const images = await Promise.all(
+    message.parts.map(async (part, index) =>
+      part.type === 'file' && part.url.startsWith('data:')
+        ? [{ id: `${recordId}/${index}`, conversationId, blob: await (await fetch(part.url)).blob() }]
+        : [],
+    ),
+  );
+  return images.flat();
+}
+
+function searchTextOf(messages: ChatUIMessage[]): string {
+  return messages
+    .flatMap((message) => [
+      ...message.parts.flatMap((part) => (part.type === 'text' ? [part.text] : [])),
+      ...Object.values((message.metadata as ChatMessageMetadata | undefined)?.transcriptions ?? {}),
+    ])
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .toLowerCase();
+}
+
+function thumbnailImageIdOf(storedMessages: ChatUIMessage[]): string | undefined {
+  for (const message of storedMessages) {
+    for (const part of message.parts) {
+      if (part.type === 'file' && isCanvasDrawing(part) && part.url.startsWith(IMAGE_URL_PREFIX)) {
+        return part.url.slice(IMAGE_URL_PREFIX.length);
+      }
+    }
+  }
+  return undefined;
+}
+
+// Message ids start with the conversation id and a slash, image ids with the
+// message record id and a slash
+function keyRange(idPrefix: string): IDBKeyRange {
+  return IDBKeyRange.bound(`${idPrefix}/`, `${idPrefix}/\uffff`);
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('indexedDB is not defined'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const openRequest = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    openRequest.onupgradeneeded = () => {
+      const database = openRequest.result;
+      if (!database.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+        database.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+      }
+      if (!database.objectStoreNames.contains(MESSAGES_STORE)) {
+        database.createObjectStore(MESSAGES_STORE, { keyPath: 'id' });
+      }
+      if (!database.objectStoreNames.contains(IMAGES_STORE)) {
+        database.createObjectStore(IMAGES_STORE, { keyPath: 'id' });
+      }
+      if (!database.objectStoreNames.contains(META_STORE)) {
+        database.createObjectStore(META_STORE);
+      }
+    };
+    openRequest.onsuccess = () => resolve(openRequest.result);
+    openRequest.onerror = () => reject(openRequest.error);
+  });
+}
+
+function request<T>(idbRequest: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    idbRequest.onsuccess = () => resolve(idbRequest.result as T);
+    idbRequest.onerror = () => reject(idbRequest.error);
+  });
+}
+
+function complete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
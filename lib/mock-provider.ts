@@ -0,0 +1,192 @@
+import { simulateReadableStream } from 'ai';
+import type {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2Prompt,
+  LanguageModelV2StreamPart,
+  LanguageModelV2Usage,
+} from '@ai-sdk/provider';
+import type { ModelInfo } from './models';
+
+/**
+ * Name of the built-in offline provider, enabled with `AI_MOCK_PROVIDER=true`
+ */
+export const MOCK_PROVIDER_NAME = 'mock';
+
+export const MOCK_MODELS: ModelInfo[] = [
+  {
+    id: 'mock/scripted',
+    label: 'Mock (offline)',
+    provider: MOCK_PROVIDER_NAME,
+    vendor: 'vercel',
+    supportsVision: true,
+    contextWindow: 128_000,
+    keepRecentImages: 2,
+  },
+];
+
+export const MOCK_SOURCE_URL = 'https://example.com/mock-source';
+
+// Tools the mock calls once before answering when they are offered (see lib/tools.ts)
+const MOCK_SEARCH_TOOL_NAME = 'webSearch';
+const MOCK_CALCULATOR_TOOL_NAME = 'calculate';
+
+// Prompts the mock hands to the calculator instead of searching, e.g. "12 * (3 + 4)"
+const ARITHMETIC_PATTERN = /^[\d\s.()]*\d[\d\s.()]*(?:[-+*/^][\d\s.()]+)+$/;
+
+interface MockToolCall {
+  toolName: string;
+  input: Record<string, string>;
+}
+
+interface ScriptedReply {
+  reasoning: string;
+  text: string;
+  usage: LanguageModelV2Usage;
+}
+
+/**
+ * Creates a model that replies with scripted reasoning, a source and text
+ * derived only from the prompt, so the same request always produces the same
+ * parts. When the calculator is offered and the user's text is arithmetic,
+ * or else the web search tool is offered, it first calls that tool with the
+ * user's text. Stream pacing comes from `AI_MOCK_DELAY_MS` (default 20).
+ */
+export function createMockLanguageModel(modelId: string): LanguageModelV2 {
+  const chunkDelayInMs = Number(process.env.AI_MOCK_DELAY_MS ?? 20);
+
+  return {
+    specificationVersion: 'v2',
+    provider: MOCK_PROVIDER_NAME,
+    modelId,
+    supportedUrls: {},
+
+    async doGenerate(options) {
+      const toolCall = pendingToolCall(options);
+      if (toolCall !== null) {
+        return {
+          content: [{ type: 'tool-call', ...toToolCallPart(toolCall, options.prompt) }],
+          finishReason: 'tool-calls',
+          usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+          warnings: [],
+        };
+      }
+
+      const reply = scriptedReply(options.prompt);
+      return {
+        content: [
+          { type: 'reasoning', text: reply.reasoning },
+          { type: 'source', sourceType: 'url', id: 'source-0', url: MOCK_SOURCE_URL, title: 'Mock source' },
+          { type: 'text', text: reply.text },
+        ],
+        finishReason: 'stop',
+        usage: reply.usage,
+        warnings: [],
+      };
+    },
+
+    async doStream(options) {
+      const toolCall = pendingToolCall(options);
+      const chunks: LanguageModelV2StreamPart[] =
+        toolCall !== null
+          ? [
+              { type: 'stream-start', warnings: [] },
+              { type: 'tool-call', ...toToolCallPart(toolCall, options.prompt) },
+              { type: 'finish', finishReason: 'tool-calls', usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 } },
+            ]
+          : scriptedChunks(scriptedReply(options.prompt));
+
+      return {
+        stream: simulateReadableStream({
+          chunks,
+          initialDelayInMs: chunkDelayInMs,
+          chunkDelayInMs,
+        }),
+      };
+    },
+  };
+}
+
+/**
+ * Tool to call when one applies and no tool has run yet for the current user
+ * message, otherwise null
+ */
+function pendingToolCall({ prompt, tools }: LanguageModelV2CallOptions): MockToolCall | null {
+  const offers = (name: string) => tools?.some((tool) => tool.name === name) ?? false;
+  if (prompt.at(-1)?.role !== 'user') {
+    return null;
+  }
+  const text = lastUserText(prompt);
+  if (offers(MOCK_CALCULATOR_TOOL_NAME) && ARITHMETIC_PATTERN.test(text)) {
+    return { toolName: MOCK_CALCULATOR_TOOL_NAME, input: { expression: text } };
+  }
+  if (offers(MOCK_SEARCH_TOOL_NAME)) {
+    return { toolName: MOCK_SEARCH_TOOL_NAME, input: { query: text || 'handwriting' } };
+  }
+  return null;
+}
+
+function toToolCallPart({ toolName, input }: MockToolCall, prompt: LanguageModelV2Prompt) {
+  return {
+    // Stable for a given conversation length, unique across its turns
+    toolCallId: `mock-${toolName}-${prompt.length}`,
+    toolName,
+    input: JSON.stringify(input),
+  };
+}
+
+function lastUserText(prompt: LanguageModelV2Prompt): string {
+  const lastUserMessage = prompt.findLast((message) => message.role === 'user');
+  const parts = lastUserMessage?.role === 'user' ? lastUserMessage.content : [];
+  return parts
+    .flatMap((part) => (part.type === 'text' ? [part.text.trim()] : []))
+    .filter(Boolean)
+    .join(' ');
+}
+
+function scriptedReply(prompt: LanguageModelV2Prompt): ScriptedReply {
+  const lastUserMessage = prompt.findLast((message) => message.role === 'user');
+  const parts = lastUserMessage?.role === 'user' ? lastUserMessage.content : [];
+  const text = lastUserText(prompt);
+  const imageCount = parts.filter((part) => part.type === 'file' && part.mediaType.startsWith('image/')).length;
+  const images = `${imageCount} image${imageCount === 1 ? '' : 's'}`;
+
+  const reasoning = `The user sent ${images}` + (text ? ` and wrote "${text}".` : ' and no text.');
+  const reply =
+    'This is a scripted reply from the mock provider. ' +
+    (text ? `You wrote: "${text}". ` : '') +
+    (imageCount > 0 ? `I received ${images}.` : 'No images were attached.');
+
+  // About four characters per token; only needs to be stable
+  const inputTokens = Math.ceil(
+    prompt.reduce((count, message) => count + JSON.stringify(message.content).length, 0) / 4,
+  );
+  const outputTokens = Math.ceil((reasoning.length + reply.length) / 4);
+
+  return {
+    reasoning,
+    text: reply,
+    usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+  };
+}
+
+function scriptedChunks(reply: ScriptedReply): LanguageModelV2StreamPart[] {
+  return [
+    { type: 'stream-start', warnings: [] },
+    { type: 'reasoning-start', id: 'reasoning-0' },
+    ...words(reply.reasoning).map(
+      (delta): LanguageModelV2StreamPart => ({ type: 'reasoning-delta', id: 'reasoning-0', delta }),
+    ),
+    { type: 'reasoning-end', id: 'reasoning-0' },
+    { type: 'source', sourceType: 'url', id: 'source-0', url: MOCK_SOURCE_URL, title: 'Mock source' },
+    { type: 'text-start', id: 'text-0' },
+    ...words(reply.text).map((delta): LanguageModelV2StreamPart => ({ type: 'text-delta', id: 'text-0', delta })),
+    { type: 'text-end', id: 'text-0' },
+    { type: 'finish', finishReason: 'stop', usage: reply.usage },
+  ];
+}
+
+// Splits text into word-sized deltas, keeping the whitespace
+function words(text: string): string[] {
+  return text.match(/\S+\s*/g) ?? [];
+}
@@ -0,0 +1,89 @@
+/**
+ * Built-in models. The API offers those whose provider is configured, plus
+ * models declared by providers (see lib/providers.ts); the client uses the
+ * types for the `/api/models` response.
+ */
+export interface ModelInfo {
+  /**
+   * Id sent by the client and passed to the provider
+   */
+  id: string;
+
+  /**
+   * Name shown in the model selector
+   */
+  label: string;
+
+  /**
+   * Name of the configured provider that serves the model
+   */
+  provider: string;
+
+  /**
+   * Company behind the model, used for the selector logo
+   */
+  vendor: string;
+
+  /**
+   * Whether the model accepts image input (canvas drawings)
+   */
+  supportsVision: boolean;
+
+  /**
+   * Context window in tokens
+   */
+  contextWindow: number;
+
+  /**
+   * How many of the most recent drawings are sent as images; older ones are
+   * replaced by their transcription to keep the history small
+   */
+  keepRecentImages: number;
+
+  /**
+   * Model in the tokenlens catalog used for cost estimates, e.g. `openai:gpt-5`
+   */
+  pricingModelId?: string;
+}
+
+export interface ModelsResponse {
+  models: ModelInfo[];
+  defaultModelId: string | undefined;
+  /**
+   * Whether `/api/transcribe` can read drawings
+   */
+  transcriptionEnabled: boolean;
+}
+
+/**
+ * Drawings a vision model sees as images unless configured otherwise
+ */
+export const DEFAULT_KEEP_RECENT_IMAGES = 4;
+
+export const MODELS: ModelInfo[] = [
+  {
+    id: 'DevBoost/OpenAI/gpt-5.1',
+    label: 'GPT-5.1',
+    provider: 'devboost',
+    vendor: 'openai',
+    supportsVision: true,
+    contextWindow: 400_000,
+    keepRecentImages: DEFAULT_KEEP_RECENT_IMAGES,
+    // Priced like GPT-5, which the catalog knows
+    pricingModelId: 'openai:gpt-5',
+  },
+  {
+    id: 'DevBoost/SelfHosted/OpenAI/gpt-oss-20b',
+    label: 'gpt-oss-20b',
+    provider: 'devboost',
+    vendor: 'openai',
+    supportsVision: false,
+    contextWindow: 131_072,
+    // Cannot read images at all, so it only ever sees transcriptions
+    keepRecentImages: 0,
+    pricingModelId: 'openai:gpt-oss-20b',
+  },
+];
+
+// Handwritten prompts arrive as images, so default to a vision model
+export const DEFAULT_MODEL_ID = 'DevBoost/OpenAI/gpt-5.1';
@@ -0,0 +1,113 @@
+import type { ToolName } from './tools';
+
+/**
+ * Assistant personas. Each chat request names one, which decides the system
+ * prompt, the model used when the client does not pick one and the tools the
+ * model may call. The client uses the types for the `/api/personas` response;
+ * system prompts stay on the server.
+ */
+
+export interface PersonaInfo {
+  /**
+   * Id sent by the client as the request's `persona`
+   */
+  id: string;
+
+  /**
+   * Name shown in the persona picker
+   */
+  name: string;
+
+  /**
+   * One line on what the persona is for
+   */
+  description: string;
+
+  /**
+   * Model to switch to when the persona is picked, if it is available
+   */
+  defaultModelId?: string;
+
+  /**
+   * Tools the persona may use; others are not offered to the model
+   */
+  tools: ToolName[];
+}
+
+export interface Persona extends PersonaInfo {
+  systemPrompt: string;
+}
+
+export interface PersonasResponse {
+  personas: PersonaInfo[];
+  defaultPersonaId: string;
+}
+
+/**
+ * Appended to every persona's prompt, since prompts usually arrive as drawings
+ */
+export const HANDWRITING_PROMPT =
+  'I will send you handwritten prompts as images. Answer me. Do not mention my handwriting.';
+
+export const PERSONAS: Persona[] = [
+  {
+    id: 'assistant',
+    name: 'Assistant',
+    description: 'General help with questions and tasks',
+    tools: ['webSearch', 'calculate', 'convertUnits', 'dateMath'],
+    systemPrompt: 'You are a helpful assistant that can answer questions and help with tasks.',
+  },
+  {
+    id: 'math-tutor',
+    name: 'Math tutor',
+    description: 'Works through problems step by step and checks your working',
+    // Reasoning pays off for checking working
+    defaultModelId: 'DevBoost/OpenAI/gpt-5.1',
+    tools: ['calculate', 'convertUnits'],
+    systemPrompt:
+      'You are a patient math tutor. When I show you a problem or my working, go through it step by step. ' +
+      'If my working contains a mistake, point out the first one and explain it before giving the answer. ' +
+      'Prefer hints that let me finish the problem myself unless I ask for the full solution.',
+  },
+  {
+    id: 'meeting-notes',
+    name: 'Meeting notes',
+    description: 'Cleans up handwritten meeting notes',
+    // Turns "next Friday" into a date
+    tools: ['dateMath'],
+    systemPrompt:
+      'You turn handwritten meeting notes into clean notes with the sections Summary, Decisions, ' +
+      'Action items (with owner and due date when given) and Open questions. Keep my wording where you can ' +
+      'and do not invent details; mark anything you cannot read as [illegible].',
+  },
+  {
+    id: 'brainstorm',
+    name: 'Brainstorm',
+    description: 'Generates and builds on ideas',
+    tools: ['webSearch'],
+    systemPrompt:
+      'You are a brainstorming partner. Offer many varied ideas, including unusual ones, build on mine ' +
+      'rather than replacing them, group related ideas, and end with one question that pushes the thinking further.',
+  },
+];
+
+export const DEFAULT_PERSONA_ID = 'assistant';
+
+export function getPersona(id: string): Persona | undefined {
+  return PERSONAS.find((persona) => persona.id === id);
+}
+
+/**
+ * The requested persona, or the default one when none was requested
+ */
+export function resolvePersona(id: string | undefined): Persona {
+  return getPersona(id ?? DEFAULT_PERSONA_ID) ?? PERSONAS[0];
+}
+
+/**
+ * What the client may see of a persona
+ */
+export function toPersonaInfo(persona: Persona): PersonaInfo {
+  const { id, name, description, defaultModelId, tools } = persona;
+  return { id, name, description, defaultModelId, tools };
+}
@@ -0,0 +1,206 @@
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import type { LanguageModel } from 'ai';
+import { z } from 'zod';
+import { createMockLanguageModel, MOCK_MODELS, MOCK_PROVIDER_NAME } from './mock-provider';
+import { DEFAULT_KEEP_RECENT_IMAGES, DEFAULT_MODEL_ID, MODELS, type ModelInfo } from './models';
+
+/**
+ * Server-side provider configuration.
+ *
+ * Providers are OpenAI-compatible endpoints read from the `AI_PROVIDERS`
+ * environment variable, a JSON array such as:
+ *
+ *   [{ "name": "local", "baseURL": "http://localhost:11434/v1", "apiKeyEnv": "LOCAL_API_KEY",
+ *      "models": [{ "id": "llava", "label": "LLaVA", "supportsVision": true, "contextWindow": 32768 }] }]
+ *
+ * Models listed in `lib/models.ts` are offered when their provider is
+ * configured; a provider can add its own models. Without `AI_PROVIDERS` the
+ * DevBoost gateway is used with `PROVIDER_API_KEY`.
+ */
+
+const providerModelSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  vendor: z.string().default('openai'),
+  supportsVision: z.boolean().default(false),
+  contextWindow: z.number().int().positive(),
+  // Defaults to DEFAULT_KEEP_RECENT_IMAGES for vision models and 0 otherwise
+  keepRecentImages: z.number().int().nonnegative().optional(),
+  pricingModelId: z.string().optional(),
+});
+
+const providerConfigSchema = z.object({
+  name: z.string().min(1),
+  baseURL: z.url(),
+  // Name of the environment variable holding the key, so keys stay out of the JSON
+  apiKeyEnv: z.string().optional(),
+  models: z.array(providerModelSchema).default([]),
+});
+
+export type ProviderConfig = z.infer<typeof providerConfigSchema>;
+
+const DEFAULT_PROVIDERS: ProviderConfig[] = [
+  {
+    name: 'devboost',
+    baseURL: 'https://gateway.ai.devboost.com/v1',
+    apiKeyEnv: 'PROVIDER_API_KEY',
+    models: [],
+  },
+];
+
+interface ProviderRegistry {
+  models: ModelInfo[];
+  defaultModelId: string | undefined;
+  languageModel: (model: ModelInfo) => LanguageModel;
+}
+
+/**
+ * `AI_PROVIDERS` is set but is not a valid provider list
+ */
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderConfigError';
+  }
+}
+
+// The registry, or why it could not be built; either way it is only built once
+let registry: ProviderRegistry | ProviderConfigError | null = null;
+
+/**
+ * Parses `AI_PROVIDERS`
+ * @throws ProviderConfigError if the variable is set but is not a valid provider list
+ */
+export function readProviderConfigs(value = process.env.AI_PROVIDERS): ProviderConfig[] {
+  if (!value?.trim()) {
+    return DEFAULT_PROVIDERS;
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(value);
+  } catch {
+    throw new ProviderConfigError('AI_PROVIDERS must be a JSON array of providers');
+  }
+
+  const result = z.array(providerConfigSchema).min(1).safeParse(json);
+  if (!result.success) {
+    throw new ProviderConfigError(`Invalid AI_PROVIDERS: ${z.prettifyError(result.error)}`);
+  }
+
+  const names = result.data.map((config) => config.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate !== undefined || names.includes(MOCK_PROVIDER_NAME)) {
+    throw new ProviderConfigError(`Invalid AI_PROVIDERS: duplicate or reserved provider name "${duplicate ?? MOCK_PROVIDER_NAME}"`);
+  }
+  return result.data;
+}
+
+function createRegistry(): ProviderRegistry {
+  const configs = readProviderConfigs();
+  const providers = new Map(
+    configs.map((config) => [
+      config.name,
+      createOpenAICompatible({
+        name: config.name,
+        apiKey: config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined,
+        baseURL: config.baseURL,
+        includeUsage: true,
+      }),
+    ]),
+  );
+  const mockEnabled = process.env.AI_MOCK_PROVIDER === 'true';
+
+  const models = [
+    ...MODELS.filter((model) => providers.has(model.provider)),
+    ...configs.flatMap((config) =>
+      config.models.map(
+        (model): ModelInfo => ({
+          ...model,
+          provider: config.name,
+          keepRecentImages: model.keepRecentImages ?? (model.supportsVision ? DEFAULT_KEEP_RECENT_IMAGES : 0),
+        }),
+      ),
+    ),
+    ...(mockEnabled ? MOCK_MODELS : []),
+  ];
+
+  // AI_DEFAULT_MODEL wins, then the built-in default, then whatever is available
+  const preferredIds = [process.env.AI_DEFAULT_MODEL, DEFAULT_MODEL_ID];
+  const defaultModelId =
+    preferredIds.find((id) => models.some((model) => model.id === id)) ?? models[0]?.id;
+
+  return {
+    models,
+    defaultModelId,
+    languageModel: (model) => {
+      if (model.provider === MOCK_PROVIDER_NAME) {
+        return createMockLanguageModel(model.id);
+      }
+      const provider = providers.get(model.provider);
+      if (!provider) {
+        throw new Error(`Provider not configured: ${model.provider}`);
+      }
+      return provider(model.id);
+    },
+  };
+}
+
+function getRegistry(): ProviderRegistry {
+  if (registry === null) {
+    try {
+      registry = createRegistry();
+    } catch (error) {
+      if (!(error instanceof ProviderConfigError)) {
+        throw error;
+      }
+      console.error('[providers]', error.message);
+      registry = error;
+    }
+  }
+  if (registry instanceof ProviderConfigError) {
+    throw registry;
+  }
+  return registry;
+}
+
+/**
+ * Why the providers could not be configured, so routes can answer with a 503
+ * instead of failing on every request
+ */
+export function getProviderConfigError(): ProviderConfigError | null {
+  try {
+    getRegistry();
+    return null;
+  } catch (error) {
+    if (error instanceof ProviderConfigError) {
+      return error;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Models offered by the configured providers
+ */
+export function getAvailableModels(): ModelInfo[] {
+  return getRegistry().models;
+}
+
+export function getDefaultModelId(): string | undefined {
+  return getRegistry().defaultModelId;
+}
+
+/**
+ * Looks up an available model by id
+ */
+export function findAvailableModel(id: string): ModelInfo | undefined {
+  return getRegistry().models.find((model) => model.id === id);
+}
+
+/**
+ * Language model instance for a model returned by `findAvailableModel`
+ */
+export function getLanguageModel(model: ModelInfo): LanguageModel {
+  return getRegistry().languageModel(model);
+}
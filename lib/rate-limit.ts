@@ -0,0 +1,175 @@
+import { jsonResponse } from './api-route';
+
+/**
+ * Per-key rate limits and daily quotas for the chat API.
+ *
+ * Each API key (devices count against the key they enrolled with) gets a
+ * token bucket for bursts plus daily request and model-token quotas, reset at
+ * midnight UTC. Limits come from the environment; 0 disables a limit:
+ *
+ * - `RATE_LIMIT_BURST`: bucket size (default 10)
+ * - `RATE_LIMIT_PER_MINUTE`: refill rate (default 30)
+ * - `DAILY_REQUEST_QUOTA`: requests per key per day (default 1000)
+ * - `DAILY_TOKEN_QUOTA`: model tokens per key per day (default 2,000,000)
+ *
+ * State lives in memory by default, which is per server instance; call
+ * `setRateLimitStore` with a shared store (Redis, a database, ...) when
+ * running more than one.
+ */
+
+export interface BucketConfig {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface TakeTokenResult {
+  allowed: boolean;
+  /**
+   * Seconds until a token is available, when not allowed
+   */
+  retryAfterSeconds: number;
+}
+
+export interface DailyUsage {
+  requests: number;
+  tokens: number;
+}
+
+/**
+ * Storage for limiter state. Shared implementations must make `takeToken`
+ * and `addDailyUsage` atomic per key.
+ */
+export interface RateLimitStore {
+  /**
+   * Refills the bucket for the time elapsed since it was last used, then takes one token
+   */
+  takeToken(key: string, bucket: BucketConfig, now: number): Promise<TakeTokenResult>;
+
+  getDailyUsage(key: string, day: string): Promise<DailyUsage>;
+
+  addDailyUsage(key: string, day: string, usage: DailyUsage): Promise<void>;
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; reason: 'rate_limit' | 'daily_requests' | 'daily_tokens'; retryAfterSeconds: number };
+
+// MARK: - Memory store
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  private readonly usage = new Map<string, DailyUsage>();
+  private usageDay: string | null = null;
+
+  async takeToken(key: string, bucket: BucketConfig, now: number): Promise<TakeTokenResult> {
+    const state = this.buckets.get(key) ?? { tokens: bucket.capacity, updatedAt: now };
+    const elapsedSeconds = Math.max(0, now - state.updatedAt) / 1000;
+    const tokens = Math.min(bucket.capacity, state.tokens + elapsedSeconds * bucket.refillPerSecond);
+
+    if (tokens < 1) {
+      this.buckets.set(key, { tokens, updatedAt: now });
+      return { allowed: false, retryAfterSeconds: Math.ceil((1 - tokens) / bucket.refillPerSecond) };
+    }
+    this.buckets.set(key, { tokens: tokens - 1, updatedAt: now });
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+
+  async getDailyUsage(key: string, day: string): Promise<DailyUsage> {
+    this.rollOver(day);
+    return this.usage.get(key) ?? { requests: 0, tokens: 0 };
+  }
+
+  async addDailyUsage(key: string, day: string, usage: DailyUsage): Promise<void> {
+    this.rollOver(day);
+    const current = this.usage.get(key) ?? { requests: 0, tokens: 0 };
+    this.usage.set(key, { requests: current.requests + usage.requests, tokens: current.tokens + usage.tokens });
+  }
+
+  // Only today's counters matter, so drop the rest when the day changes
+  private rollOver(day: string): void {
+    if (this.usageDay !== day) {
+      this.usage.clear();
+      this.usageDay = day;
+    }
+  }
+}
+
+// MARK: - Limits
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+/**
+ * Replaces the limiter storage, e.g. with a store shared by all instances
+ */
+export function setRateLimitStore(newStore: RateLimitStore): void {
+  store = newStore;
+}
+
+function limitFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name] ?? fallback);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function secondsUntilNextUtcDay(now: number): number {
+  const tomorrow = new Date(now);
+  tomorrow.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((tomorrow.getTime() - now) / 1000);
+}
+
+/**
+ * Admits a request for a key: checks the daily quotas, then takes a token
+ * from the key's bucket and counts the request
+ */
+export async function checkRateLimit(keyName: string, now = Date.now()): Promise<RateLimitResult> {
+  const day = utcDay(now);
+  const requestQuota = limitFromEnv('DAILY_REQUEST_QUOTA', 1000);
+  const tokenQuota = limitFromEnv('DAILY_TOKEN_QUOTA', 2_000_000);
+
+  const usage = await store.getDailyUsage(keyName, day);
+  if (requestQuota > 0 && usage.requests >= requestQuota) {
+    return { allowed: false, reason: 'daily_requests', retryAfterSeconds: secondsUntilNextUtcDay(now) };
+  }
+  if (tokenQuota > 0 && usage.tokens >= tokenQuota) {
+    return { allowed: false, reason: 'daily_tokens', retryAfterSeconds: secondsUntilNextUtcDay(now) };
+  }
+
+  const capacity = limitFromEnv('RATE_LIMIT_BURST', 10);
+  const perMinute = limitFromEnv('RATE_LIMIT_PER_MINUTE', 30);
+  if (capacity > 0 && perMinute > 0) {
+    const bucket = await store.takeToken(keyName, { capacity, refillPerSecond: perMinute / 60 }, now);
+    if (!bucket.allowed) {
+      return { allowed: false, reason: 'rate_limit', retryAfterSeconds: bucket.retryAfterSeconds };
+    }
+  }
+
+  await store.addDailyUsage(keyName, day, { requests: 1, tokens: 0 });
+  return { allowed: true };
+}
+
+/**
+ * Counts model tokens used by a finished request against the key's daily quota
+ */
+export async function recordTokenUsage(keyName: string, tokens: number, now = Date.now()): Promise<void> {
+  if (tokens > 0) {
+    await store.addDailyUsage(keyName, utcDay(now), { requests: 0, tokens });
+  }
+}
+
+/**
+ * `429` response for a rejected request, with `Retry-After`
+ */
+export function rateLimitResponse(result: Extract<RateLimitResult, { allowed: false }>): Response {
+  return jsonResponse(
+    {
+      error: result.reason === 'rate_limit' ? 'Too many requests' : 'Daily quota exceeded',
+      reason: result.reason,
+      retryAfterSeconds: result.retryAfterSeconds,
+    },
+    429,
+    { 'Retry-After': String(result.retryAfterSeconds) },
+  );
+}
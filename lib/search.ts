@@ -0,0 +1,187 @@
+import { readFile } from 'node:fs/promises';
+import { tool, type UIMessageStreamWriter } from 'ai';
+import { z } from 'zod';
+import defaultFixtures from './search-fixtures.json';
+
+/**
+ * Web search behind the chat API's `webSearch` tool.
+ *
+ * The adapter is chosen with `SEARCH_ADAPTER`:
+ * - `fixture`: matches queries against local fixtures (`SEARCH_FIXTURES_PATH`,
+ *   or lib/search-fixtures.json), for offline development and tests
+ * - `brave`: the Brave Search API, using `BRAVE_SEARCH_API_KEY`
+ *
+ * When unset or misconfigured, search is unavailable and `webSearch` requests
+ * get no tool.
+ */
+
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+export interface SearchOptions {
+  maxResults: number;
+  signal?: AbortSignal;
+}
+
+export interface SearchAdapter {
+  readonly name: string;
+  search(query: string, options: SearchOptions): Promise<SearchResult[]>;
+}
+
+const DEFAULT_MAX_RESULTS = 5;
+
+// MARK: - Fixture adapter
+
+const fixtureSchema = z.array(
+  z.object({
+    title: z.string(),
+    url: z.url(),
+    snippet: z.string(),
+    keywords: z.array(z.string()).default([]),
+  }),
+);
+
+type SearchFixture = z.infer<typeof fixtureSchema>[number];
+
+/**
+ * Ranks fixtures by how many query words appear in their keywords, title or
+ * snippet; deterministic and offline
+ */
+export function createFixtureSearchAdapter(fixtures: SearchFixture[]): SearchAdapter {
+  return {
+    name: 'fixture',
+    async search(query, { maxResults }) {
+      const queryWords = query.toLowerCase().split(/\W+/).filter(Boolean);
+
+      return fixtures
+        .map((fixture) => {
+          const haystack = [...fixture.keywords, fixture.title, fixture.snippet].join(' ').toLowerCase();
+          return { fixture, score: queryWords.filter((word) => haystack.includes(word)).length };
+        })
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, maxResults)
+        .map(({ fixture }) => ({ title: fixture.title, url: fixture.url, snippet: fixture.snippet }));
+    },
+  };
+}
+
+async function loadFixtures(path: string | undefined): Promise<SearchFixture[]> {
+  const json: unknown = path ? JSON.parse(await readFile(path, 'utf8')) : defaultFixtures;
+  const result = fixtureSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(`Invalid search fixtures: ${z.prettifyError(result.error)}`);
+  }
+  return result.data;
+}
+
+// MARK: - Brave adapter
+
+const braveResponseSchema = z.object({
+  web: z
+    .object({
+      results: z.array(z.object({ title: z.string(), url: z.string(), description: z.string().default('') })),
+    })
+    .optional(),
+});
+
+export function createBraveSearchAdapter(apiKey: string): SearchAdapter {
+  return {
+    name: 'brave',
+    async search(query, { maxResults, signal }) {
+      const url = new URL('https://api.search.brave.com/res/v1/web/search');
+      url.searchParams.set('q', query);
+      url.searchParams.set('count', String(maxResults));
+
+      const response = await fetch(url, {
+        headers: {
+          Accept: 'application/json',
+          'X-Subscription-Token': apiKey,
+        },
+        signal,
+      });
+      if (!response.ok) {
+        throw new Error(`Brave search failed: ${response.status}`);
+      }
+
+      const body = braveResponseSchema.parse(await response.json());
+      return (body.web?.results ?? []).slice(0, maxResults).map((result) => ({
+        title: result.title,
+        url: result.url,
+        snippet: result.description,
+      }));
+    },
+  };
+}
+
+// MARK: - Configuration
+
+let adapter: Promise<SearchAdapter | null> | null = null;
+
+/**
+ * The configured search adapter, or null when search is not configured or
+ * its configuration is invalid
+ */
+export function getSearchAdapter(): Promise<SearchAdapter | null> {
+  // A bad configuration is reported once; requests answer without search
+  // until the server restarts with a fixed one
+  adapter ??= createConfiguredAdapter().catch((error: unknown) => {
+    console.warn('Web search is unavailable:', error instanceof Error ? error.message : error);
+    return null;
+  });
+  return adapter;
+}
+
+async function createConfiguredAdapter(): Promise<SearchAdapter | null> {
+  switch (process.env.SEARCH_ADAPTER) {
+    case undefined:
+    case '':
+      return null;
+    case 'fixture':
+      return createFixtureSearchAdapter(await loadFixtures(process.env.SEARCH_FIXTURES_PATH));
+    case 'brave': {
+      const apiKey = process.env.BRAVE_SEARCH_API_KEY;
+      if (!apiKey) {
+        throw new Error('SEARCH_ADAPTER=brave requires BRAVE_SEARCH_API_KEY');
+      }
+      return createBraveSearchAdapter(apiKey);
+    }
+    default:
+      throw new Error(`Unknown SEARCH_ADAPTER: ${process.env.SEARCH_ADAPTER}`);
+  }
+}
+
+// MARK: - Tool
+
+/**
+ * Creates the `webSearch` tool. Every result is also written to the stream as
+ * a `source-url` part so the client can list it under Sources.
+ */
+export function createWebSearchTool(searchAdapter: SearchAdapter, writer: UIMessageStreamWriter) {
+  return tool({
+    description:
+      'Search the web for current or factual information. Use it when the answer depends on recent events or facts you are unsure of, and cite the results you use.',
+    inputSchema: z.object({
+      query: z.string().min(1).describe('The search query'),
+    }),
+    execute: async ({ query }, { toolCallId, abortSignal }) => {
+      const results = await searchAdapter.search(query, {
+        maxResults: DEFAULT_MAX_RESULTS,
+        signal: abortSignal,
+      });
+
+      results.forEach((result, index) => {
+        writer.write({
+          type: 'source-url',
+          sourceId: `${toolCallId}-${index}`,
+          url: result.url,
+          title: result.title,
+        });
+      });
+      return results;
+    },
+  });
+}
@@ -0,0 +1,50 @@
+import { API_BASE_URL } from './api-config';
+import type { Conversation, ConversationsResponse, ConversationSummary } from './conversations';
+import { authFetch } from './device-auth';
+
+/**
+ * Client side of `/api/conversations`, where the chat route keeps a copy of
+ * every conversation. The app works from the on-device store
+ * (lib/local-conversation-store.ts) and turns to the server for
+ * conversations it does not have, e.g. after a reinstall.
+ */
+
+/**
+ * Conversations stored on the server, most recent first
+ * @throws Error if the server cannot be reached or rejects the request
+ */
+export async function fetchServerConversations(): Promise<ConversationSummary[]> {
+  const response = await authFetch(`${API_BASE_URL}/api/conversations`);
+  if (!response.ok) {
+    throw new Error(`Failed to list conversations: ${response.status}`);
+  }
+  const { conversations }: ConversationsResponse = await response.json();
+  return conversations;
+}
+
+/**
+ * A conversation from the server with all of its messages
+ * @returns the conversation, or null if the server has none with this id
+ */
+export async function fetchServerConversation(id: string): Promise<Conversation | null> {
+  const response = await authFetch(`${API_BASE_URL}/api/conversations/${encodeURIComponent(id)}`);
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to load conversation: ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Deletes the server's copy of a conversation; a missing one is not an error
+ */
+export async function deleteServerConversation(id: string): Promise<void> {
+  const response = await authFetch(`${API_BASE_URL}/api/conversations/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`Failed to delete conversation: ${response.status}`);
+  }
+}
@@ -0,0 +1,112 @@
+import { generateText, type LanguageModelUsage, type UIMessage } from 'ai';
+import type { HistorySummary } from './chat-message';
+import { getChatRequestLimits } from './chat-request';
+import { compactHistory } from './history-compaction';
+import { estimateContextTokens, isSummaryMessage, SUMMARY_HEADING } from './history-summary';
+import type { ModelInfo } from './models';
+import { getLanguageModel } from './providers';
+
+/**
+ * Server-side summarisation of old turns (see lib/history-summary.ts).
+ *
+ * - `SUMMARY_THRESHOLD`: fraction of the model's context window, or of
+ *   `CHAT_MAX_MESSAGES`, at which older turns are summarised (default 0.75,
+ *   0 turns summaries off)
+ * - `SUMMARY_KEEP_RECENT_MESSAGES`: messages always sent as they are (default 6)
+ */
+
+const SUMMARY_PROMPT =
+  'Summarise the conversation below so it can continue without the original messages. ' +
+  'Keep names, numbers, decisions, open questions and anything the user asked to remember. ' +
+  'If it starts with an earlier summary, fold that in. Reply with the summary only.';
+
+export interface SummaryLimits {
+  threshold: number;
+  keepRecentMessages: number;
+
+  /**
+   * Messages a chat request may carry; long chats of short messages are
+   * summarised before they reach it
+   */
+  maxMessages: number;
+}
+
+function limitFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name] ?? fallback);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function getSummaryLimits(): SummaryLimits {
+  return {
+    threshold: limitFromEnv('SUMMARY_THRESHOLD', 0.75),
+    keepRecentMessages: Math.floor(limitFromEnv('SUMMARY_KEEP_RECENT_MESSAGES', 6)),
+    maxMessages: getChatRequestLimits().maxMessages,
+  };
+}
+
+/**
+ * Whether `messages`, with any earlier summary already folded in, come close
+ * enough to the model's context window, or to the message limit, to be summarised
+ */
+export function needsSummary(model: ModelInfo, messages: UIMessage<unknown>[], limits = getSummaryLimits()): boolean {
+  return (
+    limits.threshold > 0 &&
+    (estimateContextTokens(messages) >= model.contextWindow * limits.threshold ||
+      messages.length >= limits.maxMessages * limits.threshold)
+  );
+}
+
+/**
+ * Plain-text transcript for the summariser; drawings appear as their
+ * transcriptions and other images as a marker, so any model can read it
+ */
+function toTranscript(messages: UIMessage<unknown>[]): string {
+  return compactHistory(messages, 0)
+    .map((message) => {
+      const text = message.parts
+        .flatMap((part) => {
+          if (part.type === 'text') {
+            return [part.text];
+          }
+          return part.type === 'file' ? ['[Image]'] : [];
+        })
+        .join('\n');
+      if (isSummaryMessage(message)) {
+        return text.replace(SUMMARY_HEADING, 'Earlier summary:');
+      }
+      return `${message.role === 'user' ? 'User' : 'Assistant'}: ${text}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Folds all but the most recent messages into a new summary
+ * @param messages - The conversation with any earlier summary already folded in
+ * @returns undefined when there are too few turns to fold
+ */
+export async function summarizeTurns(
+  model: ModelInfo,
+  messages: UIMessage<unknown>[],
+  limits = getSummaryLimits(),
+): Promise<{ summary: HistorySummary; usage: LanguageModelUsage } | undefined> {
+  // End on an assistant message so a turn is never split from its reply
+  const firstKept = Math.max(0, messages.length - limits.keepRecentMessages);
+  const throughIndex = messages.findLastIndex((message, index) => index < firstKept && message.role === 'assistant');
+  if (throughIndex === -1) {
+    return undefined;
+  }
+
+  const result = await generateText({
+    model: getLanguageModel(model),
+    system: SUMMARY_PROMPT,
+    prompt: toTranscript(messages.slice(0, throughIndex + 1)),
+  });
+  const text = result.text.trim();
+  if (!text) {
+    return undefined;
+  }
+  return {
+    summary: { text, throughMessageId: messages[throughIndex].id },
+    usage: result.totalUsage,
+  };
+}
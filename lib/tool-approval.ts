@@ -0,0 +1,115 @@
+import {
+  asSchema,
+  getToolName,
+  isToolUIPart,
+  type ToolSet,
+  type ToolUIPart,
+  type UIMessage,
+  type UIMessageStreamWriter,
+} from 'ai';
+import type { ChatMessageMetadata } from './chat-message';
+
+/**
+ * Tool calls that wait for the user's consent.
+ *
+ * Tools listed in `TOOLS_REQUIRING_APPROVAL` are offered to the model without
+ * an execute function (see lib/tools.ts), so calling one ends the response
+ * with the call pending. The app asks the user, stores the answer in the
+ * assistant message's `approvals` metadata and sends the conversation again;
+ * the chat route then runs or declines the call before the model continues.
+ */
+
+export const DECLINED_TOOL_CALL_ERROR = 'The user declined this tool call.';
+export const UNANSWERED_TOOL_CALL_ERROR = 'The user did not answer the approval request for this tool call.';
+
+/**
+ * Whether a part is a tool call still waiting for its result
+ */
+export function isPendingToolCall(part: UIMessage['parts'][number]): part is ToolUIPart {
+  return isToolUIPart(part) && part.state === 'input-available';
+}
+
+function failToolCall(part: ToolUIPart, errorText: string, writer?: UIMessageStreamWriter): ToolUIPart {
+  writer?.write({ type: 'tool-output-error', toolCallId: part.toolCallId, errorText });
+  return {
+    type: part.type,
+    toolCallId: part.toolCallId,
+    state: 'output-error',
+    input: part.input,
+    errorText,
+  };
+}
+
+async function runToolCall(part: ToolUIPart, tools: ToolSet, writer: UIMessageStreamWriter): Promise<ToolUIPart> {
+  const toolName = getToolName(part);
+  const tool = tools[toolName];
+  if (!tool?.execute) {
+    return failToolCall(part, `The ${toolName} tool is not available for this request.`, writer);
+  }
+
+  // The input comes back from the client, so check it like a model's
+  const validation = await asSchema(tool.inputSchema).validate?.(part.input);
+  if (validation && !validation.success) {
+    return failToolCall(part, `Invalid input for ${toolName}: ${validation.error.message}`, writer);
+  }
+
+  try {
+    const output: unknown = await tool.execute(validation ? validation.value : part.input, {
+      toolCallId: part.toolCallId,
+      messages: [],
+    });
+    writer.write({ type: 'tool-output-available', toolCallId: part.toolCallId, output });
+    return {
+      type: part.type,
+      toolCallId: part.toolCallId,
+      state: 'output-available',
+      input: part.input,
+      output,
+    };
+  } catch (error) {
+    return failToolCall(part, error instanceof Error ? error.message : String(error), writer);
+  }
+}
+
+/**
+ * Settles every pending tool call so the history can go back to the model.
+ *
+ * Approved calls in the last message, the one the response continues, are
+ * run and their results streamed into it; declined calls fail with
+ * `DECLINED_TOOL_CALL_ERROR`. Calls that were never answered, which happens
+ * when the user writes a new message instead, fail with
+ * `UNANSWERED_TOOL_CALL_ERROR`.
+ */
+export async function resolveToolApprovals<MESSAGE extends UIMessage<unknown>>(
+  messages: MESSAGE[],
+  tools: ToolSet,
+  writer: UIMessageStreamWriter,
+): Promise<MESSAGE[]> {
+  const resolved: MESSAGE[] = [];
+  for (const [index, message] of messages.entries()) {
+    if (message.role !== 'assistant' || !message.parts.some(isPendingToolCall)) {
+      resolved.push(message);
+      continue;
+    }
+
+    const continuing = index === messages.length - 1;
+    const approvals = (message.metadata as ChatMessageMetadata | undefined)?.approvals;
+    const parts: MESSAGE['parts'] = [];
+    for (const part of message.parts) {
+      if (!isPendingToolCall(part)) {
+        parts.push(part);
+        continue;
+      }
+      const approval = approvals?.[part.toolCallId];
+      if (continuing && approval?.approved) {
+        parts.push(await runToolCall(part, tools, writer));
+      } else {
+        const errorText = approval ? DECLINED_TOOL_CALL_ERROR : UNANSWERED_TOOL_CALL_ERROR;
+        // Only the continued message is updated by the stream on the client
+        parts.push(failToolCall(part, errorText, continuing ? writer : undefined));
+      }
+    }
+    resolved.push({ ...message, parts });
+  }
+  return resolved;
+}
@@ -0,0 +1,92 @@
+import type { Tool, ToolSet, UIMessageStreamWriter } from 'ai';
+import { calculateTool, convertUnitsTool } from './calculator';
+import { createDateMathTool } from './date-math';
+import { createWebSearchTool, type SearchAdapter } from './search';
+
+/**
+ * Tools the chat route can offer the model.
+ *
+ * Each persona lists the tools it may use (see lib/personas.ts); a request
+ * gets those that are also available for it. Tool input is validated against
+ * each tool's zod schema, and errors thrown by `execute` reach the client as
+ * the tool part's `errorText`.
+ *
+ * - `TOOL_MAX_STEPS`: model steps per response, counting each round of tool
+ *   calls (default 5)
+ * - `TOOLS_REQUIRING_APPROVAL`: comma-separated tools that only run once the
+ *   user allows each call (default none; `webSearch` is the usual candidate,
+ *   as it sends the user's words to a third party). See lib/tool-approval.ts.
+ */
+
+export interface ToolContext {
+  writer: UIMessageStreamWriter;
+
+  /**
+   * Search backend, when the request asked for search and one is configured
+   */
+  searchAdapter: SearchAdapter | null;
+
+  /**
+   * The user's IANA time zone, when the client sent one
+   */
+  timeZone?: string;
+}
+
+/**
+ * Builds a tool for a request, or returns undefined when it is unavailable
+ */
+type ToolFactory = (context: ToolContext) => Tool | undefined;
+
+const TOOL_FACTORIES = {
+  webSearch: ({ searchAdapter, writer }) => (searchAdapter ? createWebSearchTool(searchAdapter, writer) : undefined),
+  calculate: () => calculateTool,
+  convertUnits: () => convertUnitsTool,
+  dateMath: ({ timeZone }) => createDateMathTool(timeZone),
+} satisfies Record<string, ToolFactory>;
+
+export type ToolName = keyof typeof TOOL_FACTORIES;
+
+export interface RequestTools {
+  /**
+   * Tools for the model, or undefined when there are none. Those needing
+   * approval have no execute function, so a call to one ends the response.
+   */
+  offered: ToolSet | undefined;
+
+  /**
+   * The same tools with their execute functions, for running approved calls
+   */
+  executable: ToolSet;
+}
+
+/**
+ * The available tools among `names`
+ */
+export function createTools(names: readonly ToolName[], context: ToolContext): RequestTools {
+  const approvalRequired = getToolsRequiringApproval();
+  const offered: ToolSet = {};
+  const executable: ToolSet = {};
+  for (const name of names) {
+    const tool = TOOL_FACTORIES[name](context);
+    if (tool) {
+      executable[name] = tool;
+      offered[name] = approvalRequired.has(name) ? { ...tool, execute: undefined } : tool;
+    }
+  }
+  return { offered: Object.keys(offered).length > 0 ? offered : undefined, executable };
+}
+
+export function getToolsRequiringApproval(): Set<string> {
+  const value = process.env.TOOLS_REQUIRING_APPROVAL ?? '';
+  return new Set(
+    value
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean),
+  );
+}
+
+export function getMaxToolSteps(): number {
+  const value = Number(process.env.TOOL_MAX_STEPS ?? 5);
+  return Number.isInteger(value) && value > 0 ? value : 5;
+}
@@ -0,0 +1,54 @@
+import { generateText, type LanguageModelUsage } from 'ai';
+import type { ModelInfo } from './models';
+import { findAvailableModel, getLanguageModel } from './providers';
+
+/**
+ * Server-side handwriting transcription.
+ *
+ * Enabled by setting `TRANSCRIPTION_MODEL` to the id of an available model
+ * that supports vision; a small, fast model is enough.
+ */
+
+const TRANSCRIPTION_PROMPT =
+  'Transcribe the handwritten text in this image exactly as written, keeping line breaks. ' +
+  'Reply with the text only. If there is no text, describe the drawing in one short sentence.';
+
+/**
+ * The configured transcription model, or undefined when transcription is off
+ */
+export function getTranscriptionModel(): ModelInfo | undefined {
+  const modelId = process.env.TRANSCRIPTION_MODEL?.trim();
+  if (!modelId) {
+    return undefined;
+  }
+
+  const model = findAvailableModel(modelId);
+  if (!model?.supportsVision) {
+    console.warn(`TRANSCRIPTION_MODEL ${modelId} is not an available vision model; transcription is off`);
+    return undefined;
+  }
+  return model;
+}
+
+/**
+ * Reads the handwriting in an image
+ * @param image - Sanitised image data URL
+ */
+export async function transcribeImage(
+  model: ModelInfo,
+  image: { url: string; mediaType: string },
+): Promise<{ text: string; usage: LanguageModelUsage }> {
+  const result = await generateText({
+    model: getLanguageModel(model),
+    messages: [
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: TRANSCRIPTION_PROMPT },
+          { type: 'file', data: image.url, mediaType: image.mediaType },
+        ],
+      },
+    ],
+  });
+  return { text: result.text.trim(), usage: result.totalUsage };
+}
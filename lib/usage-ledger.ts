@@ -0,0 +1,134 @@
+import { createHash } from 'node:crypto';
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { LanguageModelUsage } from 'ai';
+import type { RequestContext } from './api-route';
+import type { ResponseUsage } from './chat-message';
+import type { ModelInfo } from './models';
+
+/**
+ * Per-key record of model usage.
+ *
+ * Every chat response, transcription and history summary is appended to
+ * the ledger of the key that made it. The default ledger writes one JSON line
+ * per entry to a file per key under `USAGE_LEDGER_DIR` (default
+ * `.data/usage`); call `setUsageLedger` to keep it elsewhere.
+ */
+
+export interface UsageEntry extends ResponseUsage {
+  /**
+   * Milliseconds since the epoch
+   */
+  timestamp: number;
+  keyName: string;
+  deviceId?: string;
+  route: 'chat' | 'transcribe' | 'summary';
+  conversationId?: string;
+}
+
+export interface UsageLedger {
+  append(entry: UsageEntry): Promise<void>;
+
+  /**
+   * A key's entries from `since` on, oldest first
+   */
+  list(keyName: string, since: number): Promise<UsageEntry[]>;
+}
+
+/**
+ * Flattens AI SDK usage, whose fields are optional, for a model and start time
+ */
+export function toResponseUsage(model: ModelInfo, usage: LanguageModelUsage, startedAt: number): ResponseUsage {
+  const inputTokens = usage.inputTokens ?? 0;
+  const outputTokens = usage.outputTokens ?? 0;
+  return {
+    modelId: model.id,
+    inputTokens,
+    outputTokens,
+    reasoningTokens: usage.reasoningTokens ?? 0,
+    cachedInputTokens: usage.cachedInputTokens ?? 0,
+    totalTokens: usage.totalTokens ?? inputTokens + outputTokens,
+    latencyMs: Date.now() - startedAt,
+  };
+}
+
+// MARK: - File ledger
+
+export class FileUsageLedger implements UsageLedger {
+  constructor(private readonly directory: string) {}
+
+  async append(entry: UsageEntry): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    // Single appends of one line don't interleave, so no locking is needed
+    await appendFile(this.file(entry.keyName), `${JSON.stringify(entry)}\n`);
+  }
+
+  async list(keyName: string, since: number): Promise<UsageEntry[]> {
+    let contents: string;
+    try {
+      contents = await readFile(this.file(keyName), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return contents
+      .split('\n')
+      .filter((line) => line.trim())
+      .flatMap((line) => {
+        try {
+          return [JSON.parse(line) as UsageEntry];
+        } catch {
+          // A crash mid-write can leave a partial last line
+          return [];
+        }
+      })
+      .filter((entry) => entry.timestamp >= since);
+  }
+
+  private file(keyName: string): string {
+    // Key names are free-form, so hash them into a file name
+    return path.join(this.directory, `${createHash('sha256').update(keyName).digest('hex').slice(0, 32)}.jsonl`);
+  }
+}
+
+// MARK: - Ledger
+
+let ledger: UsageLedger | null = null;
+
+export function getUsageLedger(): UsageLedger {
+  ledger ??= new FileUsageLedger(path.resolve(process.env.USAGE_LEDGER_DIR || '.data/usage'));
+  return ledger;
+}
+
+/**
+ * Replaces the ledger storage, e.g. with a database table
+ */
+export function setUsageLedger(newLedger: UsageLedger): void {
+  ledger = newLedger;
+}
+
+/**
+ * Adds a response's usage to the requesting key's ledger; failures are logged, not thrown
+ */
+export async function recordUsage(
+  context: RequestContext,
+  route: UsageEntry['route'],
+  usage: ResponseUsage,
+  conversationId?: string,
+): Promise<void> {
+  try {
+    await getUsageLedger().append({
+      ...usage,
+      timestamp: Date.now(),
+      keyName: context.keyName,
+      deviceId: context.deviceId,
+      route,
+      conversationId,
+    });
+  } catch (error) {
+    console.error('Failed to record usage:', error);
+  }
+}
@@ -0,0 +1,39 @@
+import type { LanguageModelUsage } from 'ai';
+import type { ChatMessageMetadata, ChatUIMessage, ResponseUsage } from './chat-message';
+
+export interface ConversationUsage {
+  /**
+   * Tokens of all responses added up, for cost estimates
+   */
+  total: LanguageModelUsage;
+
+  /**
+   * The latest response; its input and output are what the next turn starts from
+   */
+  latest: ResponseUsage;
+}
+
+/**
+ * Usage of a conversation from its assistant messages' metadata
+ * @returns undefined until a response has reported usage
+ */
+export function getConversationUsage(messages: ChatUIMessage[]): ConversationUsage | undefined {
+  const responses = messages.flatMap((message) => {
+    const usage = (message.metadata as ChatMessageMetadata | undefined)?.usage;
+    return message.role === 'assistant' && usage ? [usage] : [];
+  });
+  if (responses.length === 0) {
+    return undefined;
+  }
+
+  const sum = (field: 'inputTokens' | 'outputTokens' | 'totalTokens' | 'reasoningTokens' | 'cachedInputTokens') =>
+    responses.reduce((tokens, usage) => tokens + usage[field], 0);
+  const total: LanguageModelUsage = {
+    inputTokens: sum('inputTokens'),
+    outputTokens: sum('outputTokens'),
+    totalTokens: sum('totalTokens'),
+    reasoningTokens: sum('reasoningTokens'),
+    cachedInputTokens: sum('cachedInputTokens'),
+  };
+  return { total, latest: responses[responses.length - 1] };
+}
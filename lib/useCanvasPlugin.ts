@@ -1,11 +1,24 @@
 import { useState, useCallback, useEffect } from 'react';
-import { Canvas, type CanvasResult } from './canvas-plugin';
+import { Canvas, type CanvasResult, type Drawing, type OpenCanvasOptions } from './canvas-plugin';
 
 export interface UseCanvasPluginOptions {
+  /**
+   * Conversation the canvas belongs to; each conversation keeps its own
+   * draft, so switching conversations never discards a drawing
+   */
+  conversationId?: string;
+
+  /**
+   * Options passed to the native canvas (export format, size budget, ...)
+   */
+  canvasOptions?: OpenCanvasOptions;
+
   /**
    * Callback when canvas is submitted with image data
+   * (`mediaType` is the format the image was actually encoded in, `drawing`
+   * the strokes it was rendered from)
    */
-  onSubmit?: (imageData: string) => void;
+  onSubmit?: (imageData: string, mediaType: string, drawing?: Drawing) => void;
   
   /**
    * Callback when canvas is minimized (preserving content)
@@ -18,16 +31,28 @@ export interface UseCanvasPluginOptions {
   onCancel?: () => void;
 }
 
+/**
+ * A draft other than the conversation's own, e.g. a staged drawing being edited
+ */
+export interface CanvasTarget {
+  draftId: string;
+
+  /**
+   * Drawing to start from when the draft is empty
+   */
+  initialDrawing?: Drawing;
+}
+
 export interface UseCanvasPluginReturn {
   /**
-   * Opens the native canvas overlay
+   * Opens the native canvas overlay on the conversation's draft, or on `target`
    */
-  openCanvas: () => Promise<void>;
+  openCanvas: (target?: CanvasTarget) => Promise<void>;
   
   /**
-   * Clears the preserved canvas state
+   * Clears the preserved canvas state of the current conversation, or of `draftId`
    */
-  clearCanvas: () => Promise<void>;
+  clearCanvas: (draftId?: string) => Promise<void>;
   
   /**
    * Whether the canvas is currently open
@@ -35,7 +60,7 @@ export interface UseCanvasPluginReturn {
   isCanvasOpen: boolean;
   
   /**
-   * Whether there's unsaved content on the canvas
+   * Whether there's unsaved content on the current conversation's canvas
    */
   hasUnsavedContent: boolean;
   
@@ -45,6 +70,17 @@ export interface UseCanvasPluginReturn {
   refreshContentState: () => Promise<void>;
 }
 
+async function activateConversationDraft(conversationId: string | undefined): Promise<void> {
+  if (!conversationId) {
+    return;
+  }
+  try {
+    await Canvas.setActiveDraft({ draftId: conversationId });
+  } catch (error) {
+    console.error('Failed to activate the conversation draft:', error);
+  }
+}
+
 /**
  * React hook for managing canvas plugin interactions
  * 
@@ -55,7 +91,7 @@ export interface UseCanvasPluginReturn {
  * @returns Hook interface with canvas methods and state
  */
 export function useCanvasPlugin(options: UseCanvasPluginOptions = {}): UseCanvasPluginReturn {
-  const { onSubmit, onMinimize, onCancel } = options;
+  const { conversationId, canvasOptions, onSubmit, onMinimize, onCancel } = options;
   
   const [isCanvasOpen, setIsCanvasOpen] = useState(false);
   const [hasUnsavedContent, setHasUnsavedContent] = useState(false);
@@ -65,39 +101,52 @@ export function useCanvasPlugin(options: UseCanvasPluginOptions = {}): UseCanvas
    */
   const refreshContentState = useCallback(async () => {
     try {
-      const result = await Canvas.hasContent();
+      const result = await Canvas.hasContent({ draftId: conversationId });
       setHasUnsavedContent(result.hasContent);
     } catch (error) {
       console.error('Failed to check canvas content:', error);
       // On error, assume no content to avoid blocking UI
       setHasUnsavedContent(false);
     }
-  }, []);
+  }, [conversationId]);
 
   /**
    * Open the native canvas overlay
    */
-  const openCanvas = useCallback(async () => {
+  const openCanvas = useCallback(async (target?: CanvasTarget) => {
     try {
       setIsCanvasOpen(true);
+
+      if (target?.initialDrawing) {
+        const { hasContent } = await Canvas.hasContent({ draftId: target.draftId });
+        if (!hasContent) {
+          await Canvas.setDrawing({ drawing: target.initialDrawing, draftId: target.draftId });
+        }
+      }
       
       const result: CanvasResult = await Canvas.openCanvas({
-        backgroundColor: 'white'
+        backgroundColor: 'white',
+        ...canvasOptions,
+        draftId: target?.draftId ?? conversationId,
       });
 
       // Handle the result based on user action
       switch (result.action) {
         case 'submitted':
           if (result.imageData) {
-            onSubmit?.(result.imageData);
+            onSubmit?.(result.imageData, result.mediaType ?? 'image/png', result.drawing);
           }
           // Canvas is cleared after submission
-          setHasUnsavedContent(false);
+          if (!target) {
+            setHasUnsavedContent(false);
+          }
           break;
           
         case 'minimized':
           onMinimize?.(result.hasContent);
-          setHasUnsavedContent(result.hasContent);
+          if (!target) {
+            setHasUnsavedContent(result.hasContent);
+          }
           break;
           
         case 'cancelled':
@@ -112,22 +161,34 @@ export function useCanvasPlugin(options: UseCanvasPluginOptions = {}): UseCanvas
       await refreshContentState();
     } finally {
       setIsCanvasOpen(false);
+      // Opening another draft made it the active one; hand it back to the conversation
+      if (target) {
+        await activateConversationDraft(conversationId);
+      }
     }
-  }, [onSubmit, onMinimize, onCancel, refreshContentState]);
+  }, [conversationId, canvasOptions, onSubmit, onMinimize, onCancel, refreshContentState]);
 
   /**
-   * Clear the preserved canvas state
+   * Clear the preserved canvas state of the current conversation, or of `draftId`
    */
-  const clearCanvas = useCallback(async () => {
+  const clearCanvas = useCallback(async (draftId?: string) => {
+    const isConversationDraft = draftId === undefined || draftId === conversationId;
     try {
-      await Canvas.clearCanvas();
-      setHasUnsavedContent(false);
+      await Canvas.clearCanvas({ draftId: draftId ?? conversationId });
     } catch (error) {
       console.error('Failed to clear canvas:', error);
-      // Still update state to reflect intended action
+    }
+    // Update state even on failure to reflect intended action
+    if (isConversationDraft) {
       setHasUnsavedContent(false);
     }
-  }, []);
+  }, [conversationId]);
+
+  // An Apple Pencil double-tap opens the plugin's active draft, so keep that
+  // on the current conversation's draft
+  useEffect(() => {
+    activateConversationDraft(conversationId);
+  }, [conversationId]);
 
   // Check for unsaved content on mount and set up event listeners
   useEffect(() => {
@@ -142,7 +203,7 @@ export function useCanvasPlugin(options: UseCanvasPluginOptions = {}): UseCanvas
     
     const handleCanvasSubmitted = (event: CanvasResult) => {
       if (event.imageData) {
-        onSubmit?.(event.imageData);
+        onSubmit?.(event.imageData, event.mediaType ?? 'image/png', event.drawing);
       }
       setHasUnsavedContent(false);
       setIsCanvasOpen(false);
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { ConversationSummary } from './conversations';
+import { localConversations, type LocalConversationSummary } from './local-conversation-store';
+import { deleteServerConversation, fetchServerConversations } from './server-conversations';
+
+export interface UseConversationListReturn {
+  /**
+   * Saved conversations, most recently updated first
+   */
+  conversations: LocalConversationSummary[];
+
+  /**
+   * Deletes a conversation from the device and from the server
+   */
+  deleteConversation: (id: string) => Promise<void>;
+}
+
+/**
+ * React hook that lists saved conversations, updating as they change
+ *
+ * Conversations the server has but the device does not (e.g. after a
+ * reinstall) are listed too; opening one copies it to the device.
+ */
+export function useConversationList(): UseConversationListReturn {
+  const [localList, setLocalList] = useState<LocalConversationSummary[]>([]);
+  const [serverList, setServerList] = useState<ConversationSummary[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      localConversations
+        .list()
+        .then((list) => {
+          if (!cancelled) {
+            setLocalList(list);
+          }
+        })
+        .catch((error) => {
+          console.error('Failed to load conversations:', error);
+        });
+    };
+
+    load();
+    const unsubscribe = localConversations.subscribe(load);
+    // The device's history still works when the server cannot be reached
+    fetchServerConversations()
+      .then((list) => {
+        if (!cancelled) {
+          setServerList(list);
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load conversations from the server:', error);
+      });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  const deleteConversation = useCallback(async (id: string) => {
+    setServerList((list) => list.filter((conversation) => conversation.id !== id));
+    await localConversations.delete(id);
+    // Offline, the server copy stays and is listed again on the next launch
+    await deleteServerConversation(id).catch((error) => {
+      console.error('Failed to delete the conversation on the server:', error);
+    });
+  }, []);
+
+  const localIds = new Set(localList.map((conversation) => conversation.id));
+  const conversations = [
+    ...localList,
+    ...serverList
+      .filter((conversation) => !localIds.has(conversation.id))
+      .map(
+        (conversation): LocalConversationSummary => ({
+          ...conversation,
+          pinned: false,
+          titleEdited: false,
+          searchText: conversation.title.toLowerCase(),
+        }),
+      ),
+  ].sort((a, b) => b.updatedAt - a.updatedAt);
+
+  return { conversations, deleteConversation };
+}
@@ -0,0 +1,31 @@
+import { useSyncExternalStore } from 'react';
+import { enrollDevice, isAuthenticated, subscribeToEnrollment } from './device-auth';
+
+export interface UseDeviceEnrollmentReturn {
+  /**
+   * Whether the device must enroll before it can use the API
+   */
+  needsEnrollment: boolean;
+
+  /**
+   * Enrolls the device with an enrollment code
+   */
+  enroll: (enrollmentCode: string) => Promise<void>;
+}
+
+/**
+ * React hook tracking whether this device is enrolled for API access
+ */
+export function useDeviceEnrollment(): UseDeviceEnrollmentReturn {
+  const authenticated = useSyncExternalStore(
+    subscribeToEnrollment,
+    isAuthenticated,
+    // Static export: render the app, then switch to enrollment on the client if needed
+    () => true,
+  );
+
+  return {
+    needsEnrollment: !authenticated,
+    enroll: enrollDevice,
+  };
+}
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { nanoid } from 'nanoid';
+import type { ChatUIMessage } from './chat-message';
+import { localConversations } from './local-conversation-store';
+import { fetchServerConversation } from './server-conversations';
+
+export interface UseLocalConversationReturn {
+  /**
+   * Id for `useChat`; changes when another conversation is opened
+   */
+  conversationId: string;
+
+  /**
+   * Messages to seed `useChat` with for the current conversation
+   */
+  initialMessages: ChatUIMessage[];
+
+  /**
+   * Starts an empty conversation
+   */
+  newConversation: () => void;
+
+  /**
+   * Opens a saved conversation
+   */
+  openConversation: (id: string) => Promise<void>;
+
+  /**
+   * Saves the current conversation's messages unless they are unchanged
+   */
+  saveConversation: (messages: ChatUIMessage[]) => void;
+}
+
+/**
+ * React hook that keeps the chat in the on-device conversation store
+ *
+ * On launch it reopens the conversation that was active last time.
+ * Conversations missing on the device are loaded from the server.
+ */
+export function useLocalConversation(): UseLocalConversationReturn {
+  const [conversationId, setConversationId] = useState(() => nanoid());
+  const [initialMessages, setInitialMessages] = useState<ChatUIMessage[]>([]);
+  // The messages known to be stored; useChat hands back the seeded array
+  // untouched, so opening a conversation does not save (and re-date) it
+  const persistedMessages = useRef<ChatUIMessage[] | null>(null);
+
+  const openConversation = useCallback(async (id: string) => {
+    let messages = await localConversations.load(id);
+    if (!messages) {
+      // Only the server has it, e.g. after a reinstall; keep a copy on the device
+      const conversation = await fetchServerConversation(id);
+      if (!conversation) {
+        throw new Error(`Conversation not found: ${id}`);
+      }
+      messages = conversation.messages;
+      await localConversations.save(id, messages);
+    }
+    persistedMessages.current = messages;
+    setInitialMessages(messages);
+    setConversationId(id);
+    await localConversations.setActiveConversationId(id);
+  }, []);
+
+  useEffect(() => {
+    localConversations
+      .getActiveConversationId()
+      .then((id) => (id ? openConversation(id) : undefined))
+      .catch((error) => {
+        console.error('Failed to restore the last conversation:', error);
+      });
+  }, [openConversation]);
+
+  const newConversation = useCallback(() => {
+    const id = nanoid();
+    persistedMessages.current = null;
+    setInitialMessages([]);
+    setConversationId(id);
+    localConversations.setActiveConversationId(id).catch((error) => {
+      console.error('Failed to remember the active conversation:', error);
+    });
+  }, []);
+
+  const saveConversation = useCallback(
+    (messages: ChatUIMessage[]) => {
+      if (messages.length === 0 || messages === persistedMessages.current) {
+        return;
+      }
+      persistedMessages.current = messages;
+      Promise.all([
+        localConversations.save(conversationId, messages),
+        localConversations.setActiveConversationId(conversationId),
+      ]).catch((error) => {
+        console.error('Failed to save the conversation:', error);
+      });
+    },
+    [conversationId],
+  );
+
+  return { conversationId, initialMessages, newConversation, openConversation, saveConversation };
+}
@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react';
+import { API_BASE_URL } from './api-config';
+import { authFetch } from './device-auth';
+import type { ModelInfo, ModelsResponse } from './models';
+
+export interface UseModelsReturn {
+  /**
+   * Models offered by the API, empty until loaded
+   */
+  models: ModelInfo[];
+
+  /**
+   * Model the API uses when none is requested
+   */
+  defaultModelId: string | undefined;
+
+  /**
+   * Whether the API can transcribe drawings
+   */
+  transcriptionEnabled: boolean;
+
+  /**
+   * Whether the list is still loading
+   */
+  isLoading: boolean;
+}
+
+/**
+ * React hook that loads the available models from `/api/models`
+ *
+ * On failure the list stays empty and requests fall back to the server's
+ * default model.
+ */
+export function useModels(): UseModelsReturn {
+  const [response, setResponse] = useState<ModelsResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    authFetch(`${API_BASE_URL}/api/models`)
+      .then((res) => {
+        if (!res.ok) {
+          throw new Error(`Failed to load models: ${res.status}`);
+        }
+        return res.json() as Promise<ModelsResponse>;
+      })
+      .then((body) => {
+        if (!cancelled) {
+          setResponse(body);
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load models:', error);
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return {
+    models: response?.models ?? [],
+    defaultModelId: response?.defaultModelId,
+    transcriptionEnabled: response?.transcriptionEnabled ?? false,
+    isLoading,
+  };
+}
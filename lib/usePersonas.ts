@@ -0,0 +1,67 @@
+import { useState, useEffect } from 'react';
+import { API_BASE_URL } from './api-config';
+import { authFetch } from './device-auth';
+import type { PersonaInfo, PersonasResponse } from './personas';
+
+export interface UsePersonasReturn {
+  /**
+   * Personas offered by the API, empty until loaded
+   */
+  personas: PersonaInfo[];
+
+  /**
+   * Persona the API uses when none is requested
+   */
+  defaultPersonaId: string | undefined;
+
+  /**
+   * Whether the list is still loading
+   */
+  isLoading: boolean;
+}
+
+/**
+ * React hook that loads the assistant personas from `/api/personas`
+ *
+ * On failure the list stays empty and requests use the server's default
+ * persona.
+ */
+export function usePersonas(): UsePersonasReturn {
+  const [response, setResponse] = useState<PersonasResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    authFetch(`${API_BASE_URL}/api/personas`)
+      .then((res) => {
+        if (!res.ok) {
+          throw new Error(`Failed to load personas: ${res.status}`);
+        }
+        return res.json() as Promise<PersonasResponse>;
+      })
+      .then((body) => {
+        if (!cancelled) {
+          setResponse(body);
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load personas:', error);
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return {
+    personas: response?.personas ?? [],
+    defaultPersonaId: response?.defaultPersonaId,
+    isLoading,
+  };
+}
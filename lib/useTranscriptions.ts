@@ -0,0 +1,80 @@
+import { useEffect, useRef } from 'react';
+import { API_BASE_URL } from './api-config';
+import { isCanvasDrawing, type ChatUIMessage } from './chat-message';
+import { authFetch } from './device-auth';
+
+export interface UseTranscriptionsOptions {
+  messages: ChatUIMessage[];
+  setMessages: (update: (messages: ChatUIMessage[]) => ChatUIMessage[]) => void;
+
+  /**
+   * Whether the API offers transcription
+   */
+  enabled: boolean;
+}
+
+/**
+ * React hook that transcribes drawings in sent messages
+ *
+ * Each drawing the user sends is read once by `/api/transcribe`, and the text
+ * is stored in the message's `transcriptions` metadata. Failures are logged
+ * and the drawing is left without a caption.
+ */
+export function useTranscriptions({ messages, setMessages, enabled }: UseTranscriptionsOptions): void {
+  // Drawings already sent for transcription, as `messageId:partIndex`
+  const requested = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    for (const message of messages) {
+      if (message.role !== 'user') {
+        continue;
+      }
+      message.parts.forEach((part, index) => {
+        const key = `${message.id}:${index}`;
+        if (
+          part.type !== 'file' ||
+          !isCanvasDrawing(part) ||
+          message.metadata?.transcriptions?.[index] !== undefined ||
+          requested.current.has(key)
+        ) {
+          return;
+        }
+        requested.current.add(key);
+
+        transcribe(part.url, part.mediaType)
+          .then((text) => {
+            setMessages((current) =>
+              current.map((m) =>
+                m.id === message.id
+                  ? {
+                      ...m,
+                      metadata: { ...m.metadata, transcriptions: { ...m.metadata?.transcriptions, [index]: text } },
+                    }
+                  : m,
+              ),
+            );
+          })
+          .catch((error) => {
+            console.error('Failed to transcribe drawing:', error);
+          });
+      });
+    }
+  }, [messages, setMessages, enabled]);
+}
+
+async function transcribe(url: string, mediaType: string): Promise<string> {
+  const response = await authFetch(`${API_BASE_URL}/api/transcribe`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ image: { url, mediaType } }),
+  });
+  if (!response.ok) {
+    throw new Error(`Transcription failed: ${response.status}`);
+  }
+  const { text } = (await response.json()) as { text: string };
+  return text;
+}
@@ -11,10 +11,14 @@ const nextConfig: NextConfig = {
   },
   
   // Configure output based on deployment mode
+  // Development: no static export (serves pages and API routes)
   // API-only production mode: no static export (serves API routes only)
-  // Regular mode: export static files for bundling in iOS app
-  ...(!(isProduction && isApiOnlyMode) && {
-    output: "export"
+  // Regular production build: export static files for bundling in iOS app
+  ...(isProduction && !isApiOnlyMode && {
+    output: "export",
+    // Route handlers (route.ts) and the proxy only run on the API server and
+    // cannot be exported; pages and layouts are .tsx, so only they are built
+    pageExtensions: ["tsx"]
   }),
   
   // In API-only production mode, configure for server-side API serving
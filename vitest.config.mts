@@ -0,0 +1,15 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('.', import.meta.url)),
+    },
+  },
+  test: {
+    // Server and shared modules; component tests would need a DOM environment
+    include: ['lib/**/__tests__/**/*.test.ts'],
+    environment: 'node',
+  },
+});